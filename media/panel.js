@@ -0,0 +1,1253 @@
+// Webview script for the Dart Analysis panel. The extension posts the issues
+// and their grouping; this script only renders the rows that are in view and
+// reuses the rendered rows of groups whose issues did not change.
+(function () {
+    const vscode = acquireVsCodeApi();
+    const state = Object.assign(
+        { collapsed: [], expanded: [], scrollTop: 0, historyOpen: false },
+        vscode.getState()
+    );
+
+    // Row heights must match panel.css
+    const GROUP_HEIGHT = 32;
+    const ISSUE_HEIGHT = 50;
+    const DETAIL_HEIGHT = 18;
+    const SNIPPET_LINE_HEIGHT = 18;
+    const SNIPPET_PADDING = 10;
+    const INDENT = 12;
+    const OVERSCAN = 10;
+
+    // Trend chart size in SVG units; it scales with the panel width
+    const CHART_WIDTH = 600;
+    const CHART_HEIGHT = 120;
+    const CHART_PADDING = 6;
+    const SVG_NS = 'http://www.w3.org/2000/svg';
+    // Longest lists of new and resolved issues shown since the last run
+    const MAX_DIFF_ITEMS = 50;
+    // Unchanged issues of a ref comparison are only listed for reference
+    const MAX_UNCHANGED_ITEMS = 500;
+
+    const scroller = document.getElementById('scroller');
+    const list = document.getElementById('list');
+    const empty = document.getElementById('empty');
+
+    let issues = [];
+    let groups = [];
+    let filters = {};
+    let baselined = new Set();
+    // Issue index -> { label, title } of its triage badge
+    let triage = new Map();
+    let rows = [];
+    let offsets = [0];
+    // Issue last opened from the panel or by Go to Next/Previous Issue
+    let activeIndex = -1;
+    let restoredScroll = false;
+
+    // Group key -> signature of the group's contents
+    let signatures = new Map();
+    // Row id -> { element, signature, preview }
+    const rowCache = new Map();
+    // Snippet key -> snippet, null when unavailable, or 'loading'
+    const snippets = new Map();
+
+    window.addEventListener('message', (event) => {
+        const message = event.data;
+        switch (message.command) {
+            case 'update':
+                applyUpdate(message);
+                return;
+            case 'activeIssue':
+                activeIndex = message.index;
+                revealActive();
+                renderRows();
+                return;
+            case 'comparison':
+                renderComparison(message.comparison);
+                return;
+            case 'state':
+                renderRestored(message.state, message.restoredAt);
+                return;
+            case 'ruleDetails':
+                renderRuleDetails(message.details);
+                return;
+            case 'rules':
+                renderRules(message.packages, message.overview);
+                return;
+            case 'snippet':
+                snippets.set(message.key, message.snippet);
+                buildRows();
+                renderRows();
+                return;
+        }
+    });
+
+    function applyUpdate(message) {
+        if (message.issues) {
+            issues = message.issues;
+            // The files may have changed since the snippets were read
+            snippets.clear();
+            const keys = new Set(issues.map(snippetKey));
+            saveState({ expanded: state.expanded.filter((key) => keys.has(key)) });
+        }
+        groups = message.groups;
+        filters = message.filters;
+        baselined = new Set(message.baseline ? message.baseline.baselined : []);
+        triage = new Map(message.triage.entries.map((entry) => [entry.index, entry]));
+        activeIndex = message.active;
+
+        renderSummary(message.summary);
+        renderToolbar();
+        renderBaseline(message.baseline);
+        renderTriage(message.triage);
+        renderSource(message.source, message.scope);
+        renderHistory(message.history);
+        renderFilterStatus(message.visibleCount, message.gitScopeError);
+
+        updateSignatures();
+        buildRows();
+        renderEmptyState(message.visibleCount);
+        renderRows();
+
+        // Wait for rows to scroll to; an empty first update would reset it
+        if (!restoredScroll && rows.length > 0) {
+            restoredScroll = true;
+            scroller.scrollTop = state.scrollTop;
+        }
+    }
+
+    // ---- Header ---------------------------------------------------------
+
+    function renderSummary(summary) {
+        const chips = [
+            ['error', ['error'], summary.error, summary.error === 1 ? 'Error' : 'Errors'],
+            ['warning', ['warning'], summary.warning, summary.warning === 1 ? 'Warning' : 'Warnings'],
+            ['info', ['info', 'hint'], summary.info + summary.hint, 'Info'],
+        ];
+        const container = document.getElementById('summary');
+        container.textContent = '';
+        for (const [className, severities, count, label] of chips) {
+            const chip = element('div', `summary-item ${className}`);
+            if (severities.every((s) => filters.hiddenSeverities.includes(s))) {
+                chip.classList.add('hidden');
+            }
+            chip.dataset.severities = severities.join(',');
+            chip.title = 'Show or hide ' + label.toLowerCase();
+            chip.append(element('span', '', String(count)), element('span', '', label));
+            container.append(chip);
+        }
+    }
+
+    function renderToolbar() {
+        // Never overwrite what the user is typing
+        for (const id of ['search', 'include', 'exclude', 'groupBy', 'scope']) {
+            const input = document.getElementById(id);
+            if (document.activeElement !== input) {
+                input.value = filters[id];
+            }
+        }
+
+        const baseBranch = document.getElementById('baseBranch');
+        baseBranch.hidden = filters.scope !== 'branch' && filters.scope !== 'lines';
+        baseBranch.textContent = filters.baseBranch
+            ? 'Base: ' + filters.baseBranch
+            : 'Choose base branch';
+        baseBranch.title = filters.scope === 'lines' && !filters.baseBranch
+            ? 'Changed lines are compared with HEAD; choose a branch to compare with it instead'
+            : 'Branch to compare with';
+    }
+
+    // Results restored after a window reload are shown until a run replaces them
+    function renderRestored(analysisState, restoredAt) {
+        const container = document.getElementById('restored');
+        container.hidden = !restoredAt;
+        if (!restoredAt) {
+            return;
+        }
+        const parts = [`Cached results from ${new Date(restoredAt).toLocaleString()}`];
+        if (analysisState === 'analyzing') {
+            parts.push('re-analyzing…');
+        } else if (analysisState === 'failed') {
+            parts.push('the analysis failed');
+        } else {
+            parts.push('files may have changed since');
+        }
+        container.textContent = parts.join(' · ');
+    }
+
+    function renderFilterStatus(visibleCount, gitScopeError) {
+        const parts = [];
+        if (visibleCount < issues.length) {
+            parts.push(`Showing ${visibleCount} of ${issues.length} issues`);
+        }
+        if (gitScopeError) {
+            parts.push(gitScopeError);
+        }
+        document.getElementById('filter-status').textContent = parts.join(' · ');
+    }
+
+    function renderTriage(info) {
+        const container = document.getElementById('triage');
+        // Nothing to filter until some issue has been triaged
+        container.hidden = triage.size === 0 && !filters.hideTriaged && !filters.assignedToMe;
+        document.getElementById('triage-counts').textContent =
+            `Triage: ${triage.size} issue${triage.size !== 1 ? 's' : ''}`;
+        document.getElementById('hideTriaged').checked = filters.hideTriaged;
+        const assignedToMe = document.getElementById('assignedToMe');
+        assignedToMe.checked = filters.assignedToMe;
+        document.getElementById('assignedToMe-label').title = info.user
+            ? `Only issues assigned to ${info.user}`
+            : 'Set git user.name or dartAnalysisPanel.triageUser to know who you are';
+    }
+
+    function renderBaseline(baseline) {
+        const container = document.getElementById('baseline');
+        container.hidden = !baseline;
+        if (!baseline) {
+            return;
+        }
+        document.getElementById('baseline-counts').textContent =
+            `Baseline: ${baseline.newCount} new · ${baseline.fixedCount} fixed · ` +
+            `${baseline.baselined.length} baselined`;
+        document.getElementById('newOnly').checked = filters.newOnly;
+    }
+
+    function renderSource(source, scope) {
+        const container = document.getElementById('source');
+        container.textContent = '';
+        if (!source) {
+            return;
+        }
+        container.append(element('div', '', 'Source: ' + source.provider));
+        const scopeLine = element(
+            'div',
+            scope.paths ? 'source-scope partial' : 'source-scope',
+            'Scope: ' + (scope.paths ? scope.paths.join(', ') : 'whole workspace')
+        );
+        if (scope.paths) {
+            scopeLine.title = 'Only these files and folders were analyzed; Analyze covers the whole workspace';
+        } else if (scope.lastRun) {
+            scopeLine.textContent += ' · last analyzed ' + scope.lastRun.join(', ');
+        }
+        container.append(scopeLine);
+        for (const fallback of source.fallbacks) {
+            container.append(
+                element(
+                    'div',
+                    'source-fallback',
+                    `Skipped ${fallback.provider}: ${fallback.reason}`
+                )
+            );
+        }
+    }
+
+    // ---- History --------------------------------------------------------
+
+    function renderHistory(history) {
+        const container = document.getElementById('history');
+        const { entries, sinceLastRun } = history;
+        container.hidden = entries.length === 0;
+        if (entries.length === 0) {
+            return;
+        }
+        container.open = state.historyOpen;
+
+        const summary = document.getElementById('history-summary');
+        summary.textContent = sinceLastRun
+            ? `Since last run (${formatTime(sinceLastRun.previous)}): ` +
+              `${sinceLastRun.introduced.length} new · ${sinceLastRun.resolved.length} resolved`
+            : `History: ${entries.length} run${entries.length !== 1 ? 's' : ''}`;
+
+        renderTrend(entries);
+        renderRunDiff(sinceLastRun);
+    }
+
+    function renderTrend(entries) {
+        const container = document.getElementById('trend');
+        container.textContent = '';
+        if (entries.length < 2) {
+            container.append(
+                element('div', 'trend-empty', 'Analyze again to see how the counts change over time')
+            );
+            return;
+        }
+
+        const series = [
+            ['error', (entry) => entry.severities.error],
+            ['warning', (entry) => entry.severities.warning],
+            ['info', (entry) => entry.severities.info + entry.severities.hint],
+        ];
+        const max = Math.max(1, ...entries.map((entry) => entry.total));
+        const x = (index) =>
+            CHART_PADDING + (index / (entries.length - 1)) * (CHART_WIDTH - 2 * CHART_PADDING);
+        const y = (count) =>
+            CHART_HEIGHT - CHART_PADDING - (count / max) * (CHART_HEIGHT - 2 * CHART_PADDING);
+
+        const svg = svgElement('svg', 'trend-chart');
+        svg.setAttribute('viewBox', `0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`);
+        for (const [className, count] of series) {
+            const line = svgElement('polyline', 'trend-line ' + className);
+            line.setAttribute(
+                'points',
+                entries.map((entry, index) => `${x(index)},${y(count(entry))}`).join(' ')
+            );
+            svg.append(line);
+        }
+
+        // One hover target per run with its details
+        entries.forEach((entry, index) => {
+            const point = svgElement('circle', 'trend-point');
+            point.setAttribute('cx', x(index));
+            point.setAttribute('cy', y(entry.total));
+            point.setAttribute('r', 3);
+            const title = svgElement('title');
+            title.textContent = [
+                formatTime(entry.timestamp),
+                `${entry.severities.error} errors, ${entry.severities.warning} warnings, ` +
+                    `${entry.severities.info + entry.severities.hint} infos`,
+                `${entry.analyzer} via ${entry.provider}`,
+                entry.commit ? 'Commit ' + entry.commit.slice(0, 8) : '',
+            ]
+                .filter(Boolean)
+                .join('\n');
+            point.append(title);
+            svg.append(point);
+        });
+
+        const legend = element('div', 'trend-legend');
+        legend.append(
+            element('span', '', `${formatTime(entries[0].timestamp)} – ${formatTime(entries[entries.length - 1].timestamp)}`),
+            element('span', 'trend-key error', 'Errors'),
+            element('span', 'trend-key warning', 'Warnings'),
+            element('span', 'trend-key info', 'Info'),
+            element('span', '', `max ${max}`)
+        );
+        container.append(svg, legend);
+    }
+
+    function renderRunDiff(sinceLastRun) {
+        const container = document.getElementById('run-diff');
+        container.textContent = '';
+        if (!sinceLastRun) {
+            return;
+        }
+
+        const introduced = sinceLastRun.introduced.map((index) => {
+            const issue = issues[index];
+            const item = element('div', 'run-diff-item introduced', '+ ');
+            const link = element('a', '', `${basename(issue.file)}:${issue.line} ${issue.code} – ${issue.message}`);
+            link.href = '#';
+            link.dataset.action = 'openIssue';
+            link.dataset.index = index;
+            item.append(link);
+            return item;
+        });
+        const resolved = sinceLastRun.resolved.map((entry) =>
+            element('div', 'run-diff-item resolved', `− ${entry.file} ${entry.code} – ${entry.message}`)
+        );
+
+        for (const [label, items] of [['New', introduced], ['Resolved', resolved]]) {
+            if (items.length === 0) {
+                continue;
+            }
+            container.append(element('div', 'run-diff-heading', `${label} (${items.length})`));
+            container.append(...items.slice(0, MAX_DIFF_ITEMS));
+            if (items.length > MAX_DIFF_ITEMS) {
+                container.append(
+                    element('div', 'run-diff-item', `and ${items.length - MAX_DIFF_ITEMS} more`)
+                );
+            }
+        }
+        if (introduced.length === 0 && resolved.length === 0) {
+            container.append(element('div', 'run-diff-item', 'No issues were added or resolved'));
+        }
+    }
+
+    function renderEmptyState(visibleCount) {
+        empty.textContent = '';
+        empty.hidden = visibleCount > 0;
+        if (issues.length === 0) {
+            empty.append(
+                element('div', 'empty-state-icon', '✓'),
+                element('div', '', 'No analysis issues found')
+            );
+        } else {
+            empty.append(element('div', '', 'No issues match the current filters'));
+        }
+    }
+
+    // ---- Ref comparison -------------------------------------------------
+
+    function renderComparison(comparison) {
+        const container = document.getElementById('comparison');
+        container.textContent = '';
+        container.hidden = !comparison;
+        if (!comparison) {
+            return;
+        }
+        const { base, head, introduced, resolved, unchanged } = comparison;
+
+        const header = element('div', 'comparison-header');
+        const title = element('span', 'comparison-title');
+        title.append(
+            refLabel(base),
+            element('span', 'comparison-arrow', ' → '),
+            refLabel(head)
+        );
+        const exportButton = element('button', 'toolbar-btn', 'Export Markdown');
+        exportButton.dataset.action = 'exportComparison';
+        const close = element('button', 'pane-close', '×');
+        close.dataset.action = 'closeComparison';
+        close.title = 'Back to the results';
+        const actions = element('span', 'header-actions');
+        actions.append(exportButton, close);
+        header.append(title, actions);
+
+        const columns = element('div', 'comparison-columns');
+        columns.append(
+            comparisonColumn(`Resolved, only in ${base.ref}`, 'resolved', resolved),
+            comparisonColumn(`Introduced, only in ${head.ref}`, 'introduced', introduced)
+        );
+
+        const rest = element('details', 'comparison-unchanged');
+        rest.append(element('summary', '', `Unchanged (${unchanged.length})`));
+        rest.append(comparisonItems('unchanged', unchanged.slice(0, MAX_UNCHANGED_ITEMS)));
+        if (unchanged.length > MAX_UNCHANGED_ITEMS) {
+            rest.append(
+                element('div', 'comparison-item', `and ${unchanged.length - MAX_UNCHANGED_ITEMS} more`)
+            );
+        }
+
+        container.append(header, columns, rest);
+    }
+
+    function refLabel(ref) {
+        const result = element('span', '', ref.ref);
+        result.title = ref.commit;
+        result.append(element('span', 'comparison-commit', ` ${ref.commit.slice(0, 7)}`));
+        return result;
+    }
+
+    function comparisonColumn(label, list, items) {
+        const column = element('div', `comparison-column ${list}`);
+        column.append(element('div', 'comparison-heading', `${label} (${items.length})`));
+        if (items.length === 0) {
+            column.append(element('div', 'comparison-item', 'None'));
+        } else {
+            column.append(comparisonItems(list, items));
+        }
+        return column;
+    }
+
+    // Items arrive sorted by file; each file gets a heading
+    function comparisonItems(list, items) {
+        const fragment = document.createDocumentFragment();
+        let file;
+        items.forEach((item, index) => {
+            if (item.file !== file) {
+                file = item.file;
+                fragment.append(element('div', 'comparison-file', file));
+            }
+            const row = element('div', `comparison-item ${item.severity}`);
+            const link = element('a', '', `${item.line}:${item.column} ${item.code} – ${item.message}`);
+            link.href = '#';
+            link.title = item.message;
+            link.dataset.action = 'openComparedIssue';
+            link.dataset.list = list;
+            link.dataset.index = index;
+            row.append(link);
+            fragment.append(row);
+        });
+        return fragment;
+    }
+
+    // ---- Side pane ------------------------------------------------------
+
+    function openPane(kind, title) {
+        const pane = document.getElementById('side-pane');
+        pane.textContent = '';
+        pane.hidden = false;
+        pane.dataset.kind = kind;
+
+        const header = element('div', 'pane-header');
+        const close = element('button', 'pane-close', '×');
+        close.dataset.action = 'closePane';
+        close.title = 'Close';
+        header.append(element('span', 'pane-title', title), close);
+        pane.append(header);
+        return pane;
+    }
+
+    function closePane() {
+        const pane = document.getElementById('side-pane');
+        if (!pane.hidden) {
+            pane.hidden = true;
+            pane.dataset.kind = '';
+            post('closePane');
+        }
+    }
+
+    function renderRuleDetails(details) {
+        const pane = openPane('rule', details.code);
+        pane.append(element('div', 'rule-kind', details.isLint ? 'Lint rule' : 'Diagnostic'));
+
+        if (details.description) {
+            pane.append(element('div', 'rule-description', details.description));
+        }
+        if (details.correctionMessage) {
+            pane.append(element('div', 'rule-correction', details.correctionMessage));
+        }
+
+        const status = element('div', 'rule-status');
+        if (!details.isLint) {
+            status.textContent = 'Reported by the analyzer unless ignored in the analysis options';
+        } else if (details.status) {
+            const source = element('a', '', details.status.source);
+            source.href = '#';
+            source.dataset.action = 'openRuleSource';
+            status.append(details.status.enabled ? 'Enabled by ' : 'Disabled by ', source);
+            if (details.status.includedVia.length > 0) {
+                status.append(` (included from ${details.status.includedVia.join(' → ')})`);
+            }
+        } else {
+            status.textContent = details.optionsFile
+                ? `Not enabled by ${details.optionsFile}`
+                : 'No analysis_options.yaml applies to this package';
+        }
+        pane.append(status);
+        if (details.severity) {
+            pane.append(
+                element(
+                    'div',
+                    'rule-status',
+                    `Severity set to ${details.severity.severity} by ${details.severity.source}`
+                )
+            );
+        }
+
+        pane.append(
+            element(
+                'div',
+                'rule-occurrences',
+                `${details.occurrences} occurrence${details.occurrences !== 1 ? 's' : ''} in ` +
+                    `${details.files} file${details.files !== 1 ? 's' : ''}`
+            )
+        );
+
+        const docs = element('a', 'rule-docs', 'Open documentation on dart.dev');
+        docs.href = '#';
+        docs.dataset.action = 'openRuleDocumentation';
+        pane.append(docs);
+    }
+
+    let rulesView;
+
+    function renderRules(packages, overview) {
+        rulesView = overview;
+        let pane = document.getElementById('side-pane');
+        // Keep the filter inputs, and their focus, when only the data changed
+        if (pane.hidden || pane.dataset.kind !== 'rules') {
+            pane = openPane('rules', 'Rules');
+            const controls = element('div', 'rules-controls');
+            const filter = element('input');
+            filter.id = 'rules-filter';
+            filter.type = 'search';
+            filter.placeholder = 'Filter rules';
+            filter.value = state.rulesFilter || '';
+            filter.addEventListener('input', () => {
+                saveState({ rulesFilter: filter.value });
+                renderRuleList();
+            });
+            const activeOnly = element('input');
+            activeOnly.type = 'checkbox';
+            activeOnly.checked = state.rulesActiveOnly !== false;
+            activeOnly.addEventListener('change', () => {
+                saveState({ rulesActiveOnly: activeOnly.checked });
+                renderRuleList();
+            });
+            const activeLabel = element('label', '', ' Active only');
+            activeLabel.prepend(activeOnly);
+            controls.append(filter, activeLabel);
+            pane.append(element('div', 'rules-meta'), controls, element('div', 'rules-list'));
+        }
+
+        const meta = pane.querySelector('.rules-meta');
+        meta.textContent = '';
+        if (packages.length > 1) {
+            const select = element('select', 'rules-package');
+            for (const pkg of packages) {
+                const option = element('option', '', pkg.name);
+                option.value = pkg.root;
+                option.selected = pkg.root === overview.packageRoot;
+                select.append(option);
+            }
+            select.addEventListener('change', () => post('showRules', { packageRoot: select.value }));
+            meta.append(select);
+        }
+        const options = element('div');
+        if (overview.optionsFile) {
+            const link = element('a', '', overview.optionsFile);
+            link.href = '#';
+            link.dataset.action = 'openOptionsFile';
+            options.append('Options: ', link);
+        } else {
+            options.textContent = 'No analysis_options.yaml yet; changes create one in the package';
+        }
+        meta.append(options);
+        if (overview.exclude.length > 0) {
+            meta.append(
+                element(
+                    'div',
+                    'rules-exclude',
+                    `Excluded: ${overview.exclude.join(', ')} (${overview.excludeSource})`
+                )
+            );
+        }
+
+        renderRuleList();
+    }
+
+    function renderRuleList() {
+        const list = document.querySelector('#side-pane .rules-list');
+        if (!list || !rulesView) {
+            return;
+        }
+        const query = (state.rulesFilter || '').toLowerCase();
+        const activeOnly = state.rulesActiveOnly !== false;
+        const rules = rulesView.rules.filter(
+            (rule) =>
+                (!activeOnly || rule.enabled) &&
+                (!query ||
+                    rule.code.toLowerCase().includes(query) ||
+                    (rule.description || '').toLowerCase().includes(query))
+        );
+
+        list.textContent = '';
+        for (const rule of rules) {
+            const row = element('div', 'rule-row' + (rule.enabled ? '' : ' disabled'));
+            row.dataset.code = rule.code;
+
+            const enabled = element('input');
+            enabled.type = 'checkbox';
+            enabled.checked = rule.enabled;
+            enabled.disabled = !rule.isLint;
+            enabled.title = rule.isLint
+                ? 'Enable or disable in linter: rules:'
+                : 'Diagnostics are turned off by setting their severity to ignore';
+            enabled.dataset.action = 'setRuleEnabled';
+
+            const code = element('a', 'rule-row-code', rule.code);
+            code.href = '#';
+            code.dataset.action = 'showRuleByCode';
+            code.title = rule.description || rule.code;
+
+            const severity = element('select', 'rule-row-severity');
+            severity.dataset.action = 'setRuleSeverity';
+            severity.title = rule.severitySource
+                ? `Set by ${rule.severitySource}`
+                : 'Severity under analyzer: errors:';
+            for (const value of ['', 'error', 'warning', 'info', 'ignore']) {
+                const option = element('option', '', value || 'default');
+                option.value = value;
+                option.selected = (rule.severity || '') === value;
+                severity.append(option);
+            }
+
+            const header = element('div', 'rule-row-header');
+            header.append(enabled, code);
+            if (rule.occurrences > 0) {
+                header.append(element('span', 'rule-row-count', String(rule.occurrences)));
+            }
+            header.append(severity);
+            row.append(header);
+            if (rule.source) {
+                row.append(element('div', 'rule-row-source', rule.source));
+            }
+            list.append(row);
+        }
+        if (rules.length === 0) {
+            list.append(element('div', 'rule-row-source', 'No rules match'));
+        }
+    }
+
+    // ---- Rows -----------------------------------------------------------
+
+    function issueSignature(issue) {
+        return [
+            issue.severity,
+            issue.code,
+            issue.file,
+            issue.line,
+            issue.column,
+            issue.message,
+            issue.correctionMessage,
+            issue.documentation,
+            (issue.contextMessages || []).length,
+        ].join('\u0000');
+    }
+
+    function updateSignatures() {
+        const next = new Map();
+        const visit = (group) => {
+            next.set(
+                group.key,
+                [group.label, group.description, group.count]
+                    .concat(
+                        group.indexes.map(
+                            (index) =>
+                                issueSignature(issues[index]) +
+                                isNew(index) +
+                                (triage.has(index) ? triage.get(index).label : '')
+                        )
+                    )
+                    .join('\u0001')
+            );
+            group.children.forEach(visit);
+        };
+        groups.forEach(visit);
+        signatures = next;
+
+        // Drop rendered rows of groups that no longer exist
+        for (const [id, cached] of rowCache) {
+            if (!signatures.has(cached.groupKey)) {
+                rowCache.delete(id);
+            }
+        }
+    }
+
+    function buildRows() {
+        const collapsed = new Set(state.collapsed);
+        // Issues only need their file shown when groups span many files
+        const showFile = filters.groupBy === 'code' || filters.groupBy === 'severity';
+        rows = [];
+
+        const visit = (group, depth) => {
+            const isCollapsed = collapsed.has(group.key);
+            rows.push({
+                kind: 'group',
+                id: `g:${depth}:${group.key}`,
+                group,
+                depth,
+                collapsed: isCollapsed,
+            });
+            if (isCollapsed) {
+                return;
+            }
+            group.children.forEach((child) => visit(child, depth + 1));
+            group.indexes.forEach((index, position) => {
+                rows.push({
+                    kind: 'issue',
+                    id: `i:${depth}:${group.key}:${position}`,
+                    group,
+                    index,
+                    depth: depth + 1,
+                    showFile,
+                });
+            });
+        };
+        groups.forEach((group) => visit(group, 0));
+
+        offsets = [0];
+        for (const row of rows) {
+            offsets.push(offsets[offsets.length - 1] + rowHeight(row));
+            if (row.kind === 'issue' && isExpanded(row.index)) {
+                loadSnippet(row.index);
+            }
+        }
+        list.style.height = offsets[rows.length] + 'px';
+    }
+
+    // Only meaningful once a baseline exists
+    function isNew(index) {
+        return baselined.size > 0 && !baselined.has(index);
+    }
+
+    function rowHeight(row) {
+        if (row.kind === 'group') {
+            return GROUP_HEIGHT;
+        }
+        const issue = issues[row.index];
+        const details =
+            (issue.correctionMessage ? 1 : 0) +
+            (issue.contextMessages || []).length +
+            (issue.documentation ? 1 : 0);
+        return ISSUE_HEIGHT + details * DETAIL_HEIGHT + previewHeight(row.index);
+    }
+
+    // ---- Snippet previews -------------------------------------------------
+
+    // Identifies an issue's position across refreshes
+    function snippetKey(issue) {
+        return [issue.packageRoot, issue.file, issue.line, issue.column, issue.code].join(':');
+    }
+
+    function isExpanded(index) {
+        return state.expanded.includes(snippetKey(issues[index]));
+    }
+
+    function loadSnippet(index) {
+        const key = snippetKey(issues[index]);
+        if (!snippets.has(key)) {
+            snippets.set(key, 'loading');
+            post('loadSnippet', { index, key });
+        }
+    }
+
+    // Changes whenever the preview part of a row has to be rebuilt
+    function previewState(index) {
+        if (!isExpanded(index)) {
+            return '';
+        }
+        const snippet = snippets.get(snippetKey(issues[index]));
+        return snippet === 'loading' || snippet === undefined ? 'loading' : 'loaded';
+    }
+
+    function previewHeight(index) {
+        if (!isExpanded(index)) {
+            return 0;
+        }
+        const snippet = snippets.get(snippetKey(issues[index]));
+        const lines = snippet && snippet !== 'loading' ? snippet.lines.length : 1;
+        return lines * SNIPPET_LINE_HEIGHT + SNIPPET_PADDING;
+    }
+
+    function createSnippet(issue) {
+        const container = element('div', 'issue-snippet');
+        const snippet = snippets.get(snippetKey(issue));
+        if (snippet === 'loading' || snippet === undefined) {
+            container.append(element('div', 'snippet-line snippet-message', 'Loading…'));
+            return container;
+        }
+        if (snippet === null) {
+            container.append(element('div', 'snippet-line snippet-message', 'Source not available'));
+            return container;
+        }
+        if (snippet.dirty) {
+            container.classList.add('dirty');
+            container.title = 'From unsaved changes; the issue may have moved since the analysis';
+        }
+
+        const endLine = issue.endLine || issue.line;
+        // Without an end position, highlight to the end of the first line
+        const endColumn = issue.endLine ? issue.endColumn : undefined;
+        snippet.lines.forEach((text, offset) => {
+            const lineNumber = snippet.startLine + offset;
+            const line = element('div', 'snippet-line');
+            line.append(element('span', 'snippet-gutter', String(lineNumber)));
+            const code = element('span', 'snippet-code');
+            if (lineNumber < issue.line || lineNumber > endLine) {
+                code.textContent = text;
+            } else {
+                line.classList.add('highlighted');
+                const start = lineNumber === issue.line ? issue.column - 1 : 0;
+                const end =
+                    lineNumber === endLine && endColumn !== undefined
+                        ? Math.max(endColumn - 1, start + 1)
+                        : text.length;
+                const mark = element('mark', '', text.slice(start, end));
+                code.append(text.slice(0, start), mark, text.slice(end));
+            }
+            line.append(code);
+            container.append(line);
+        });
+        return container;
+    }
+
+    // Expands the groups around the active issue and scrolls it into view
+    function revealActive() {
+        const keys = findGroupKeys(groups, activeIndex);
+        if (!keys) {
+            return;
+        }
+        const collapsed = new Set(state.collapsed);
+        if (keys.filter((key) => collapsed.delete(key)).length > 0) {
+            saveState({ collapsed: Array.from(collapsed) });
+            buildRows();
+        }
+
+        const i = rows.findIndex((row) => row.kind === 'issue' && row.index === activeIndex);
+        if (i === -1) {
+            return;
+        }
+        const top = scroller.scrollTop;
+        if (offsets[i] < top || offsets[i + 1] > top + scroller.clientHeight) {
+            scroller.scrollTop = Math.max(0, offsets[i] - scroller.clientHeight / 3);
+        }
+    }
+
+    // Keys of the groups from the top level down to the issue's own group
+    function findGroupKeys(groupList, index) {
+        for (const group of groupList) {
+            if (group.indexes.includes(index)) {
+                return [group.key];
+            }
+            const keys = findGroupKeys(group.children, index);
+            if (keys) {
+                return [group.key, ...keys];
+            }
+        }
+        return undefined;
+    }
+
+    // Index of the row that contains the given vertical offset
+    function rowAt(offset) {
+        let low = 0;
+        let high = rows.length - 1;
+        while (low < high) {
+            const mid = (low + high + 1) >> 1;
+            if (offsets[mid] <= offset) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return Math.max(0, low);
+    }
+
+    function renderRows() {
+        const top = scroller.scrollTop;
+        const start = Math.max(0, rowAt(top) - OVERSCAN);
+        const end = Math.min(rows.length, rowAt(top + scroller.clientHeight) + OVERSCAN + 1);
+        const visible = new Set();
+
+        for (let i = start; i < end; i++) {
+            const row = rows[i];
+            const rowElement = getRowElement(row);
+            rowElement.style.top = offsets[i] + 'px';
+            rowElement.style.height = rowHeight(row) + 'px';
+            if (rowElement.parentNode !== list) {
+                list.append(rowElement);
+            }
+            visible.add(rowElement);
+        }
+
+        for (const child of Array.from(list.children)) {
+            if (!visible.has(child)) {
+                child.remove();
+            }
+        }
+    }
+
+    function getRowElement(row) {
+        const signature = signatures.get(row.group.key);
+        const preview = row.kind === 'issue' ? previewState(row.index) : '';
+        let cached = rowCache.get(row.id);
+        if (!cached || cached.signature !== signature || cached.preview !== preview) {
+            cached = {
+                element: row.kind === 'group' ? createGroupRow(row) : createIssueRow(row),
+                signature,
+                preview,
+                groupKey: row.group.key,
+            };
+            rowCache.set(row.id, cached);
+        }
+
+        // Cheap per-render state that does not invalidate the row
+        if (row.kind === 'group') {
+            cached.element.classList.toggle('collapsed', row.collapsed);
+        } else {
+            cached.element.dataset.index = row.index;
+            cached.element.classList.toggle('active', row.index === activeIndex);
+        }
+        return cached.element;
+    }
+
+    function createGroupRow(row) {
+        const group = row.group;
+        const header = element('div', 'row group-header');
+        header.dataset.action = 'toggleGroup';
+        header.dataset.key = group.key;
+        header.style.paddingLeft = 8 + row.depth * INDENT + 'px';
+        header.title = group.description || group.label;
+
+        const title = element('span', 'group-title');
+        title.append(element('span', 'group-label', group.label));
+        if (group.description) {
+            title.append(element('span', 'group-description', group.description));
+        }
+        header.append(
+            title,
+            element('span', 'group-count', `${group.count} issue${group.count !== 1 ? 's' : ''}`)
+        );
+        return header;
+    }
+
+    function createIssueRow(row) {
+        const issue = issues[row.index];
+        const item = element('div', `row issue ${issue.severity}`);
+        item.dataset.action = 'openFile';
+        item.style.paddingLeft = 30 + (row.depth - 1) * INDENT + 'px';
+
+        const header = element('div', 'issue-header');
+        const expanded = isExpanded(row.index);
+        const toggle = element('button', 'issue-preview-toggle', expanded ? '▾' : '▸');
+        toggle.dataset.action = 'togglePreview';
+        toggle.title = expanded ? 'Hide source' : 'Show source';
+        header.append(toggle);
+        const code = element('span', 'issue-code', issue.code);
+        code.dataset.action = 'showRule';
+        code.title = 'Show rule details';
+        if (isNew(row.index)) {
+            header.append(element('span', 'issue-new', 'new'));
+        }
+        if (triage.has(row.index)) {
+            const badge = element('span', 'issue-triage', triage.get(row.index).label);
+            badge.title = triage.get(row.index).title;
+            header.append(badge);
+        }
+        header.append(
+            element('span', `issue-severity ${issue.severity}`, issue.severity),
+            code,
+            element(
+                'span',
+                'issue-location',
+                row.showFile
+                    ? `${issue.file}:${issue.line}:${issue.column}`
+                    : `Line ${issue.line}:${issue.column}`
+            )
+        );
+        const actions = element('button', 'issue-actions', '⋯');
+        actions.dataset.action = 'issueActions';
+        actions.title = 'Quick fixes, ignore and triage actions';
+        header.append(actions);
+        const message = element('div', 'issue-message', issue.message);
+        message.title = issue.message;
+        item.append(header, message);
+
+        if (issue.correctionMessage) {
+            item.append(element('div', 'issue-correction', issue.correctionMessage));
+        }
+        (issue.contextMessages || []).forEach((context, contextIndex) => {
+            const contextElement = element('div', 'issue-context');
+            contextElement.dataset.action = 'openContext';
+            contextElement.dataset.contextIndex = contextIndex;
+            contextElement.append(
+                element('span', '', context.message),
+                element(
+                    'span',
+                    'issue-location',
+                    `${basename(context.file)}:${context.line}:${context.column}`
+                )
+            );
+            item.append(contextElement);
+        });
+        if (issue.documentation) {
+            const docs = element('div');
+            const link = element('a', 'issue-docs', 'Documentation');
+            link.href = '#';
+            link.dataset.action = 'openDocumentation';
+            docs.append(link);
+            item.append(docs);
+        }
+        if (expanded) {
+            item.append(createSnippet(issue));
+        }
+        return item;
+    }
+
+    // ---- Events ---------------------------------------------------------
+
+    function post(command, data) {
+        vscode.postMessage(Object.assign({ command }, data));
+    }
+
+    function saveState(changes) {
+        Object.assign(state, changes);
+        vscode.setState(state);
+    }
+
+    function updateFilters(changes) {
+        post('updateFilters', { filters: changes });
+    }
+
+    document.addEventListener('click', (event) => {
+        const chip = event.target.closest('.summary-item');
+        if (chip) {
+            updateFilters({ toggleSeverities: chip.dataset.severities.split(',') });
+            return;
+        }
+
+        const target = event.target.closest('[data-action]');
+        if (!target) {
+            return;
+        }
+        const issueRow = target.closest('.issue');
+        const index = issueRow ? Number(issueRow.dataset.index) : undefined;
+
+        switch (target.dataset.action) {
+            case 'toggleGroup': {
+                const collapsed = new Set(state.collapsed);
+                if (!collapsed.delete(target.dataset.key)) {
+                    collapsed.add(target.dataset.key);
+                }
+                saveState({ collapsed: Array.from(collapsed) });
+                buildRows();
+                renderRows();
+                return;
+            }
+            case 'togglePreview': {
+                const key = snippetKey(issues[index]);
+                const expanded = new Set(state.expanded);
+                if (!expanded.delete(key)) {
+                    expanded.add(key);
+                }
+                saveState({ expanded: Array.from(expanded) });
+                buildRows();
+                renderRows();
+                return;
+            }
+            case 'chooseBaseBranch':
+                post('chooseBaseBranch');
+                return;
+            case 'openFile':
+                post('openFile', { index });
+                return;
+            case 'openIssue':
+                event.preventDefault();
+                post('openFile', { index: Number(target.dataset.index) });
+                return;
+            case 'issueActions':
+                post('issueActions', { index });
+                return;
+            case 'openContext':
+                post('openContext', { index, contextIndex: Number(target.dataset.contextIndex) });
+                return;
+            case 'openDocumentation':
+                event.preventDefault();
+                post('openDocumentation', { index });
+                return;
+            case 'showRule':
+                post('showRule', { index });
+                return;
+            case 'closePane':
+                closePane();
+                return;
+            case 'openComparedIssue':
+                event.preventDefault();
+                post('openComparedIssue', {
+                    list: target.dataset.list,
+                    index: Number(target.dataset.index),
+                });
+                return;
+            case 'exportComparison':
+                post('exportComparison');
+                return;
+            case 'closeComparison':
+                renderComparison(undefined);
+                post('closeComparison');
+                return;
+            case 'showRules':
+                post('showRules');
+                return;
+            case 'showRuleByCode':
+                event.preventDefault();
+                post('showRuleByCode', { code: target.closest('.rule-row').dataset.code });
+                return;
+            case 'openRuleSource':
+            case 'openRuleDocumentation':
+            case 'openOptionsFile':
+                event.preventDefault();
+                post(target.dataset.action);
+                return;
+        }
+    });
+
+    document.getElementById('refresh').addEventListener('click', () => post('refresh'));
+
+    // Text filters are applied after a short pause in typing
+    let filterTimer;
+    for (const id of ['search', 'include', 'exclude']) {
+        const input = document.getElementById(id);
+        input.addEventListener('input', () => {
+            clearTimeout(filterTimer);
+            filterTimer = setTimeout(() => updateFilters({ [id]: input.value }), 300);
+        });
+    }
+    document.getElementById('groupBy').addEventListener('change', (event) => {
+        updateFilters({ groupBy: event.target.value });
+    });
+    document.getElementById('scope').addEventListener('change', (event) => {
+        updateFilters({ scope: event.target.value });
+    });
+    document.getElementById('newOnly').addEventListener('change', (event) => {
+        updateFilters({ newOnly: event.target.checked });
+    });
+    document.getElementById('hideTriaged').addEventListener('change', (event) => {
+        updateFilters({ hideTriaged: event.target.checked });
+    });
+    document.getElementById('assignedToMe').addEventListener('change', (event) => {
+        updateFilters({ assignedToMe: event.target.checked });
+    });
+    // Rule edits rewrite analysis_options.yaml and re-analyze
+    document.addEventListener('change', (event) => {
+        const row = event.target.closest('.rule-row');
+        if (!row) {
+            return;
+        }
+        const code = row.dataset.code;
+        switch (event.target.dataset.action) {
+            case 'setRuleEnabled':
+                post('setRuleEnabled', { code, enabled: event.target.checked });
+                return;
+            case 'setRuleSeverity':
+                post('setRuleSeverity', { code, severity: event.target.value });
+                return;
+        }
+    });
+    document.getElementById('history').addEventListener('toggle', (event) => {
+        saveState({ historyOpen: event.target.open });
+    });
+
+    let scrollFrame;
+    scroller.addEventListener('scroll', () => {
+        if (scrollFrame) {
+            return;
+        }
+        scrollFrame = requestAnimationFrame(() => {
+            scrollFrame = undefined;
+            saveState({ scrollTop: scroller.scrollTop });
+            renderRows();
+        });
+    });
+    window.addEventListener('resize', renderRows);
+    document.addEventListener('keydown', (event) => {
+        if (event.key === 'Escape') {
+            closePane();
+        }
+    });
+
+    // ---- Helpers --------------------------------------------------------
+
+    function element(tag, className, text) {
+        const result = document.createElement(tag);
+        if (className) {
+            result.className = className;
+        }
+        if (text !== undefined) {
+            result.textContent = text;
+        }
+        return result;
+    }
+
+    function svgElement(tag, className) {
+        const result = document.createElementNS(SVG_NS, tag);
+        if (className) {
+            result.setAttribute('class', className);
+        }
+        return result;
+    }
+
+    function formatTime(timestamp) {
+        return new Date(timestamp).toLocaleString(undefined, {
+            month: 'short',
+            day: 'numeric',
+            hour: '2-digit',
+            minute: '2-digit',
+        });
+    }
+
+    function basename(file) {
+        return file.split(/[\\/]/).pop();
+    }
+
+    post('ready');
+})();
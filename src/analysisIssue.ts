@@ -0,0 +1,54 @@
+export type IssueSeverity = 'error' | 'warning' | 'info' | 'hint';
+
+/**
+ * A secondary location attached to an issue, e.g. the original declaration
+ * for a duplicate definition. `file` is always an absolute path because it
+ * may point outside the issue's package.
+ */
+export interface ContextMessage {
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+export interface AnalysisIssue {
+  severity: IssueSeverity;
+  code: string;
+  message: string;
+  file: string;
+  line: number;
+  column: number;
+  endLine?: number;
+  endColumn?: number;
+  /** Problem type reported by the analyzer, e.g. `LINT` or `COMPILE_TIME_ERROR` */
+  type?: string;
+  correctionMessage?: string;
+  /** Link to the diagnostic or lint documentation on dart.dev */
+  documentation?: string;
+  contextMessages?: ContextMessage[];
+  packageName: string;
+  packageRoot: string;
+  /** Stable identity that survives line shifts, see `fingerprintIssues` */
+  fingerprint?: string;
+}
+
+// Issue as parsed from analyzer output, with `file` as an absolute path
+export type RawIssue = Omit<
+  AnalysisIssue,
+  'packageName' | 'packageRoot' | 'fingerprint'
+>;
+
+export function mapSeverity(severity: string): IssueSeverity {
+  const lower = severity.toLowerCase();
+  if (lower === 'error' || lower === 'fatal') {
+    return 'error';
+  }
+  if (lower === 'warning' || lower === 'warn') {
+    return 'warning';
+  }
+  if (lower === 'info' || lower === 'information') {
+    return 'info';
+  }
+  return 'hint';
+}
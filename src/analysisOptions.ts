@@ -0,0 +1,377 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'url';
+import {
+  Document,
+  Pair,
+  Scalar,
+  YAMLMap,
+  isMap,
+  isScalar,
+  isSeq,
+  parse,
+  parseDocument,
+} from 'yaml';
+import { RULE_SET_INCLUDES, getRuleSetRules } from './lintRules';
+
+export const ANALYSIS_OPTIONS_FILE = 'analysis_options.yaml';
+
+/**
+ * Where a lint rule is configured. `source` is an absolute file path or,
+ * for rule sets that could not be resolved, the `package:` include URI.
+ */
+export interface RuleStatus {
+  enabled: boolean;
+  source: string;
+  /** Includes followed from the package's options file to reach `source` */
+  includedVia: string[];
+}
+
+/** Severities accepted under `analyzer: errors:` */
+export type DiagnosticSeverity = 'ignore' | 'info' | 'warning' | 'error';
+
+export const DIAGNOSTIC_SEVERITIES: DiagnosticSeverity[] = [
+  'error',
+  'warning',
+  'info',
+  'ignore',
+];
+
+/** A severity set under `analyzer: errors:` and the file that set it */
+export interface SeverityOverride {
+  severity: DiagnosticSeverity;
+  source: string;
+  includedVia: string[];
+}
+
+export interface AnalysisOptions {
+  /** The options file that applies to the package, if any */
+  file?: string;
+  rules: Map<string, RuleStatus>;
+  errors: Map<string, SeverityOverride>;
+  /** `analyzer: exclude:` globs, relative to the file that declares them */
+  exclude: string[];
+  /** Options file whose `exclude:` list applies */
+  excludeSource?: string;
+}
+
+/**
+ * Reads the analysis options that apply to a package: the nearest
+ * analysis_options.yaml and everything it includes. Package includes are
+ * resolved through `.dart_tool/package_config.json`; the standard rule sets
+ * fall back to bundled metadata when `pub get` has not run.
+ */
+export async function readAnalysisOptions(
+  packageRoot: string
+): Promise<AnalysisOptions> {
+  const file = await findOptionsFile(packageRoot);
+  const options: AnalysisOptions = {
+    file,
+    rules: new Map(),
+    errors: new Map(),
+    exclude: [],
+  };
+  if (file) {
+    const packageConfig = await readPackageConfig(packageRoot);
+    await applyOptionsFile(file, [], new Set(), options, packageConfig);
+  }
+  return options;
+}
+
+/** Whether saving the file can change the analysis results */
+export function affectsAnalysis(document: {
+  languageId: string;
+  fileName: string;
+}): boolean {
+  return (
+    document.languageId === 'dart' ||
+    path.basename(document.fileName) === ANALYSIS_OPTIONS_FILE
+  );
+}
+
+/**
+ * Returns the options file to edit for a package: the one that applies to
+ * it, or a new analysis_options.yaml in the package.
+ */
+export async function getOptionsFileForEdit(
+  packageRoot: string
+): Promise<string> {
+  return (
+    (await findOptionsFile(packageRoot)) ??
+    path.join(packageRoot, ANALYSIS_OPTIONS_FILE)
+  );
+}
+
+/**
+ * Turns off a diagnostic in the analysis_options.yaml that applies to the
+ * package, creating one if needed. Lints are disabled under `linter: rules:`;
+ * every other diagnostic is set to `ignore` under `analyzer: errors:`.
+ * Comments and formatting elsewhere in the file are preserved.
+ */
+export async function disableDiagnostic(
+  packageRoot: string,
+  code: string,
+  isLint: boolean
+): Promise<string> {
+  return editOptions(packageRoot, (doc) => {
+    if (isLint) {
+      setLintRuleIn(doc, code, false);
+    } else {
+      doc.setIn(['analyzer', 'errors', code], 'ignore');
+    }
+  });
+}
+
+/**
+ * Enables or disables a lint rule under `linter: rules:` of the options file
+ * that applies to the package.
+ */
+export async function setLintRule(
+  packageRoot: string,
+  code: string,
+  enabled: boolean
+): Promise<string> {
+  return editOptions(packageRoot, (doc) => setLintRuleIn(doc, code, enabled));
+}
+
+/**
+ * Overrides the severity of a diagnostic under `analyzer: errors:`, or
+ * removes the override when `severity` is undefined.
+ */
+export async function setDiagnosticSeverity(
+  packageRoot: string,
+  code: string,
+  severity: DiagnosticSeverity | undefined
+): Promise<string> {
+  return editOptions(packageRoot, (doc) => {
+    if (severity) {
+      doc.setIn(['analyzer', 'errors', code], severity);
+      return;
+    }
+    doc.deleteIn(['analyzer', 'errors', code]);
+    // Leave no empty `errors:` behind, it would parse as null
+    const errors = doc.getIn(['analyzer', 'errors']);
+    if (isMap(errors) && errors.items.length === 0) {
+      doc.deleteIn(['analyzer', 'errors']);
+    }
+  });
+}
+
+async function editOptions(
+  packageRoot: string,
+  edit: (doc: Document) => void
+): Promise<string> {
+  const file = await getOptionsFileForEdit(packageRoot);
+  const doc = await readOptionsDocument(file);
+  edit(doc);
+  await fs.writeFile(file, doc.toString(), 'utf8');
+  return file;
+}
+
+async function readOptionsDocument(file: string): Promise<Document> {
+  let content = '';
+  try {
+    content = await fs.readFile(file, 'utf8');
+  } catch {
+    // A missing file is created on write
+  }
+  const doc: Document = parseDocument(content);
+  if (!isMap(doc.contents)) {
+    doc.contents = doc.createNode({});
+  }
+  return doc;
+}
+
+function setLintRuleIn(doc: Document, code: string, enabled: boolean) {
+  const rules = doc.getIn(['linter', 'rules']);
+
+  if (isSeq(rules)) {
+    const names = rules.items.map((item) =>
+      String(isScalar(item) ? item.value : item)
+    );
+    // Enabling fits the plain list form; keep it as it is
+    if (enabled) {
+      if (!names.includes(code)) {
+        rules.add(doc.createNode(code));
+      }
+      return;
+    }
+
+    // A list cannot express a disabled rule, so convert it to the
+    // `rule: true/false` map form, keeping the comments of its items
+    const map = new YAMLMap();
+    map.commentBefore = rules.commentBefore;
+    map.comment = rules.comment;
+    rules.items.forEach((item, index) => {
+      const key = new Scalar(names[index]);
+      const value = new Scalar(names[index] !== code);
+      if (isScalar(item)) {
+        key.commentBefore = item.commentBefore;
+        value.comment = item.comment;
+      }
+      map.items.push(new Pair(key, value));
+    });
+    doc.setIn(['linter', 'rules'], map);
+  }
+
+  doc.setIn(['linter', 'rules', code], enabled);
+}
+
+/**
+ * Applies an options file on top of the rules collected so far. Resolves to
+ * false when the file cannot be read.
+ */
+async function applyOptionsFile(
+  source: string,
+  includedVia: string[],
+  seen: Set<string>,
+  result: AnalysisOptions,
+  packageConfig: PackageConfig | undefined
+): Promise<boolean> {
+  // Include cycles are an analyzer error; reading each file once is enough
+  if (seen.has(source)) {
+    return true;
+  }
+  seen.add(source);
+
+  let options: unknown;
+  try {
+    options = parse(await fs.readFile(source, 'utf8'));
+  } catch {
+    return false;
+  }
+  if (!isObject(options)) {
+    return true;
+  }
+
+  // Included options come first so that this file overrides them
+  const includes = Array.isArray(options.include)
+    ? options.include
+    : [options.include];
+  for (const include of includes) {
+    if (typeof include !== 'string') {
+      continue;
+    }
+    const via = [...includedVia, source];
+    const resolved = include.startsWith('package:')
+      ? resolvePackageUri(include, packageConfig)
+      : path.resolve(path.dirname(source), include);
+    const applied =
+      resolved !== undefined &&
+      (await applyOptionsFile(resolved, via, seen, result, packageConfig));
+    if (!applied && RULE_SET_INCLUDES[include]) {
+      for (const name of getRuleSetRules(RULE_SET_INCLUDES[include])) {
+        result.rules.set(name, {
+          enabled: true,
+          source: include,
+          includedVia: via,
+        });
+      }
+    }
+  }
+
+  const analyzer = isObject(options.analyzer) ? options.analyzer : {};
+  if (isObject(analyzer.errors)) {
+    for (const [code, severity] of Object.entries(analyzer.errors)) {
+      if (DIAGNOSTIC_SEVERITIES.includes(severity as DiagnosticSeverity)) {
+        result.errors.set(code, {
+          severity: severity as DiagnosticSeverity,
+          source,
+          includedVia,
+        });
+      }
+    }
+  }
+  // A file's own exclude list replaces the included ones
+  if (Array.isArray(analyzer.exclude)) {
+    result.exclude = analyzer.exclude.map(String);
+    result.excludeSource = source;
+  }
+
+  const linter = isObject(options.linter) ? options.linter : {};
+  if (Array.isArray(linter.rules)) {
+    for (const name of linter.rules) {
+      result.rules.set(String(name), { enabled: true, source, includedVia });
+    }
+  } else if (isObject(linter.rules)) {
+    for (const [name, value] of Object.entries(linter.rules)) {
+      result.rules.set(name, { enabled: value !== false, source, includedVia });
+    }
+  }
+  return true;
+}
+
+/** The analyzer uses the nearest options file in the package's ancestors */
+async function findOptionsFile(dir: string): Promise<string | undefined> {
+  for (;;) {
+    const file = path.join(dir, ANALYSIS_OPTIONS_FILE);
+    if (await exists(file)) {
+      return file;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+// Package name -> absolute path of its `lib` directory
+type PackageConfig = Map<string, string>;
+
+/**
+ * Reads the nearest `.dart_tool/package_config.json`, which pub workspaces
+ * keep at the workspace root.
+ */
+async function readPackageConfig(
+  dir: string
+): Promise<PackageConfig | undefined> {
+  for (;;) {
+    const file = path.join(dir, '.dart_tool', 'package_config.json');
+    try {
+      const config = JSON.parse(await fs.readFile(file, 'utf8'));
+      const packages: PackageConfig = new Map();
+      const base = pathToFileURL(file);
+      for (const pkg of config.packages ?? []) {
+        const root = new URL(
+          pkg.rootUri.endsWith('/') ? pkg.rootUri : `${pkg.rootUri}/`,
+          base
+        );
+        packages.set(
+          pkg.name,
+          fileURLToPath(new URL(pkg.packageUri ?? 'lib/', root))
+        );
+      }
+      return packages;
+    } catch {
+      // Not here or unreadable, keep looking
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return undefined;
+    }
+    dir = parent;
+  }
+}
+
+function resolvePackageUri(
+  uri: string,
+  packageConfig: PackageConfig | undefined
+): string | undefined {
+  const match = /^package:([^/]+)\/(.+)$/.exec(uri);
+  const lib = match && packageConfig?.get(match[1]);
+  return lib ? path.join(lib, match[2]) : undefined;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,268 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import * as readline from 'readline';
+import { ContextMessage, RawIssue, mapSeverity } from './analysisIssue';
+
+export interface AnalysisServerOptions {
+  command: string;
+  args: string[];
+}
+
+export const defaultAnalysisServerOptions: AnalysisServerOptions = {
+  command: 'dart',
+  args: [
+    'language-server',
+    '--protocol=analyzer',
+    '--client-id=dart-analysis-panel',
+  ],
+};
+
+interface PendingRequest {
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Long-running Dart analysis server spoken to over stdio using the legacy
+ * analysis_server protocol (one JSON message per line). Errors reported
+ * through `analysis.errors` notifications are kept per file so that every
+ * update replaces only the results for the file it covers.
+ *
+ * The command is configurable so that tests can drive the client with a fake
+ * server script that speaks the same protocol.
+ */
+export class AnalysisServerClient implements vscode.Disposable {
+  private _process: ChildProcess | undefined;
+  private _nextId = 1;
+  private _pending = new Map<string, PendingRequest>();
+  private _errorsByFile = new Map<string, RawIssue[]>();
+  private _isAnalyzing = false;
+  private _analysisWaiters: (() => void)[] = [];
+  private _startWaiters: (() => void)[] = [];
+  private _roots: string[] | undefined;
+
+  private readonly _onDidChangeErrors = new vscode.EventEmitter<void>();
+  public readonly onDidChangeErrors = this._onDidChangeErrors.event;
+
+  private readonly _onDidExit = new vscode.EventEmitter<number | null>();
+  public readonly onDidExit = this._onDidExit.event;
+
+  constructor(
+    private readonly _options: AnalysisServerOptions = defaultAnalysisServerOptions
+  ) {}
+
+  public get isRunning(): boolean {
+    return this._process !== undefined;
+  }
+
+  public get errors(): RawIssue[] {
+    return Array.from(this._errorsByFile.values()).flat();
+  }
+
+  /**
+   * Spawns the server and resolves once it has sent `server.connected`.
+   */
+  public start(): Promise<void> {
+    if (this._process) {
+      return Promise.resolve();
+    }
+
+    return new Promise<void>((resolve, reject) => {
+      const child = spawn(this._options.command, this._options.args, {
+        stdio: ['pipe', 'pipe', 'pipe'],
+      });
+      this._process = child;
+
+      let connected = false;
+      const onConnected = () => {
+        connected = true;
+        resolve();
+      };
+
+      child.on('error', (error) => {
+        this._handleExit(null);
+        if (!connected) {
+          reject(error);
+        }
+      });
+      child.on('exit', (code) => {
+        this._handleExit(code);
+        if (!connected) {
+          reject(new Error(`Analysis server exited with code ${code}`));
+        }
+      });
+
+      readline
+        .createInterface({ input: child.stdout! })
+        .on('line', (line) => this._handleLine(line, onConnected));
+    }).then(() =>
+      this._request('server.setSubscriptions', { subscriptions: ['STATUS'] })
+    );
+  }
+
+  public async setAnalysisRoots(included: string[]): Promise<void> {
+    await this._request('analysis.setAnalysisRoots', {
+      included,
+      excluded: [],
+    });
+    this._roots = included;
+  }
+
+  /**
+   * Points the server at `included` and resolves once it has analyzed them.
+   * The server only reports that it is analyzing after it has taken the new
+   * roots, so until then its status says nothing about them; this includes
+   * an analysis of the old roots that is still running, which the server
+   * ends before it starts over. Setting the same roots again starts no
+   * analysis; then this only waits for the one already running, if any.
+   */
+  public async analyzeRoots(included: string[]): Promise<void> {
+    const changed =
+      !this._roots ||
+      this._roots.length !== included.length ||
+      this._roots.some((root, index) => root !== included[index]);
+    // Listen before sending, the status may arrive before the response
+    const started = changed
+      ? new Promise<void>((resolve) => this._startWaiters.push(resolve))
+      : undefined;
+    await this.setAnalysisRoots(included);
+    await started;
+    await this.waitForAnalysis();
+  }
+
+  /**
+   * Resolves once the server reports that it is no longer analyzing.
+   */
+  public waitForAnalysis(): Promise<void> {
+    if (!this._isAnalyzing) {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => this._analysisWaiters.push(resolve));
+  }
+
+  public dispose() {
+    if (this._process) {
+      // Ask politely first; the exit handler clears state either way
+      this._request('server.shutdown', {}).catch(() => undefined);
+      this._process.kill();
+    }
+    this._onDidChangeErrors.dispose();
+    this._onDidExit.dispose();
+  }
+
+  private _request(method: string, params: object): Promise<any> {
+    const child = this._process;
+    if (!child || !child.stdin) {
+      return Promise.reject(new Error('Analysis server is not running'));
+    }
+
+    const id = String(this._nextId++);
+    return new Promise((resolve, reject) => {
+      this._pending.set(id, { resolve, reject });
+      child.stdin!.write(JSON.stringify({ id, method, params }) + '\n');
+    });
+  }
+
+  private _handleLine(line: string, onConnected: () => void) {
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      // The server occasionally prints non-protocol diagnostics
+      return;
+    }
+
+    if (message.id !== undefined) {
+      const pending = this._pending.get(message.id);
+      if (pending) {
+        this._pending.delete(message.id);
+        if (message.error) {
+          pending.reject(new Error(message.error.message));
+        } else {
+          pending.resolve(message.result);
+        }
+      }
+      return;
+    }
+
+    switch (message.event) {
+      case 'server.connected':
+        onConnected();
+        return;
+      case 'server.status':
+        if (message.params?.analysis) {
+          this._setAnalyzing(message.params.analysis.isAnalyzing);
+        }
+        return;
+      case 'analysis.errors':
+        this._errorsByFile.set(
+          message.params.file,
+          (message.params.errors || []).map((error: any) =>
+            this._parseError(error)
+          )
+        );
+        this._onDidChangeErrors.fire();
+        return;
+      case 'analysis.flushResults':
+        for (const file of message.params.files || []) {
+          this._errorsByFile.delete(file);
+        }
+        this._onDidChangeErrors.fire();
+        return;
+    }
+  }
+
+  private _parseError(error: any): RawIssue {
+    return {
+      severity: mapSeverity(error.severity || ''),
+      code: error.code || 'unknown',
+      message: error.message || '',
+      file: error.location.file,
+      line: error.location.startLine || 1,
+      column: error.location.startColumn || 1,
+      endLine: error.location.endLine,
+      endColumn: error.location.endColumn,
+      type: error.type,
+      correctionMessage: error.correction,
+      documentation: error.url,
+      contextMessages: (error.contextMessages || []).map(
+        (context: any): ContextMessage => ({
+          message: context.message,
+          file: context.location.file,
+          line: context.location.startLine,
+          column: context.location.startColumn,
+        })
+      ),
+    };
+  }
+
+  private _setAnalyzing(isAnalyzing: boolean) {
+    this._isAnalyzing = isAnalyzing;
+    if (isAnalyzing) {
+      const waiters = this._startWaiters;
+      this._startWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    } else {
+      const waiters = this._analysisWaiters;
+      this._analysisWaiters = [];
+      waiters.forEach((resolve) => resolve());
+    }
+  }
+
+  private _handleExit(code: number | null) {
+    if (!this._process) {
+      return;
+    }
+    this._process = undefined;
+    this._errorsByFile.clear();
+    this._roots = undefined;
+    // Nothing is going to be analyzed any more
+    this._startWaiters.splice(0).forEach((resolve) => resolve());
+    this._setAnalyzing(false);
+    for (const pending of this._pending.values()) {
+      pending.reject(new Error('Analysis server exited'));
+    }
+    this._pending.clear();
+    this._onDidExit.fire(code);
+  }
+}
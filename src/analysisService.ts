@@ -0,0 +1,1291 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+  DartPackage,
+  attributeToPackages,
+  findDartPackages,
+  getAnalysisRoots,
+  isInPaths,
+  mergeScopedIssues,
+} from './dartPackages';
+import { AnalysisIssue, IssueSeverity, RawIssue } from './analysisIssue';
+import {
+  Baseline,
+  createBaseline,
+  fingerprintIssues,
+  readBaseline,
+  writeBaseline,
+} from './baseline';
+import {
+  DiagnosticSeverity,
+  affectsAnalysis,
+  setDiagnosticSeverity,
+  setLintRule,
+} from './analysisOptions';
+import { affectsConfig, getConfig, getDefaultFilters } from './config';
+import {
+  ExportFormat,
+  exporters,
+  writeComparisonMarkdown,
+} from './exporters';
+import {
+  ChangedFiles,
+  getChangedFilesOf,
+  getGitUser,
+  getHeadCommit,
+  getRepositoryRoot,
+  listBranches,
+} from './gitScope';
+import {
+  AnalysisHistory,
+  HistoryEntry,
+  LastRun,
+  RunComparison,
+  compareRuns,
+} from './history';
+import {
+  CheckoutAnalysis,
+  RefComparison,
+  analyzeRef,
+  compareRefResults,
+} from './refComparison';
+import { RunScheduler, RunTimeoutError } from './runScheduler';
+import { showIssueActions } from './issueActions';
+import {
+  Triage,
+  TriageChange,
+  createTriage,
+  readTriage,
+  updateTriage,
+  writeTriage,
+} from './triage';
+import {
+  FilteredIssues,
+  IssueFilters,
+  applyFilters,
+  defaultFilters,
+} from './filters';
+import {
+  AnalysisProvider,
+  Analyzer,
+  ProviderFallback,
+  analyzeWithFallback,
+  createCheckoutProviders,
+  createProviders,
+} from './providers';
+import { getToolCommand, runCommand } from './providers/cliProvider';
+
+const FILTERS_KEY = 'dartAnalysisPanel.filters';
+const CACHED_RESULTS_KEY = 'dartAnalysisPanel.cachedResults';
+// Larger results are not worth the workspace storage they would take
+const MAX_CACHED_ISSUES = 5000;
+// Context key for menus that only apply while an analysis is running
+const ANALYZING_CONTEXT = 'dartAnalysisPanel.analyzing';
+
+export interface RefreshOptions {
+  /** Overrides the `dartAnalysisPanel.analyzer` setting */
+  analyzer?: Analyzer;
+  /**
+   * Shows progress as a notification with a Cancel button. Background runs
+   * only show progress in the status bar.
+   */
+  interactive?: boolean;
+  /**
+   * Absolute files and folders to analyze instead of the whole workspace.
+   * Their issues replace those of the same files in the current results.
+   */
+  paths?: string[];
+}
+
+/**
+ * Where the results stand: `idle` before the first analysis, `stale` when
+ * Dart files were saved or a run was cancelled since the results were
+ * produced, and `failed` when the last run reported an error.
+ */
+export type AnalysisState =
+  | 'idle'
+  | 'analyzing'
+  | 'upToDate'
+  | 'stale'
+  | 'failed';
+
+export interface ResultSource {
+  provider: string;
+  fallbacks: ProviderFallback[];
+  /** Files and folders the latest run was limited to */
+  paths?: string[];
+}
+
+// The latest results, kept to show them instantly after a window reload
+interface CachedResults {
+  timestamp: number;
+  issues: AnalysisIssue[];
+  source: ResultSource;
+  scope?: string[];
+}
+
+/**
+ * The results as the views show them: every issue, the indexes of the ones
+ * that pass the filters and their grouping.
+ */
+export interface AnalysisView extends FilteredIssues {
+  /** Differences to the run before the latest one */
+  sinceLastRun?: RunComparison;
+}
+
+/**
+ * Runs the analysis and owns its results together with the filters, baseline
+ * and git scope applied to them. The webview panel and the issues tree are
+ * both views over this model.
+ */
+export class AnalysisService implements vscode.Disposable {
+  private readonly _context: vscode.ExtensionContext;
+  private _disposables: vscode.Disposable[] = [];
+  private _analysisResults: AnalysisIssue[] = [];
+  private readonly _scheduler: RunScheduler;
+  // Options of the requested run, until it starts
+  private _nextRun: RefreshOptions | undefined;
+  private _status = '';
+  private _analyzing = false;
+  private _stale = false;
+  private _failed = false;
+  private _packages: DartPackage[] = [];
+  // Search of the workspace folders, until a pubspec is added or removed
+  private _packageSearch: Promise<DartPackage[]> | undefined;
+  // Streamed updates are applied one after another, oldest first
+  private _streamedUpdates: Promise<void> = Promise.resolve();
+  private _providers: AnalysisProvider[] = [];
+  private _providersAnalyzer: Analyzer | undefined;
+  private _providerDisposables: vscode.Disposable[] = [];
+  private _resultSource: ResultSource | undefined;
+  private _restoredAt: number | undefined;
+  private _scope: string[] | undefined;
+  private _activeIssue: AnalysisIssue | undefined;
+  private _filters: IssueFilters;
+  private _baseline: Baseline | undefined;
+  private _baselineWatcher: vscode.FileSystemWatcher | undefined;
+  private _triage: Triage = createTriage();
+  private _triageWatcher: vscode.FileSystemWatcher | undefined;
+  private _triageUser: string | undefined;
+  private _changedFiles: ChangedFiles | undefined;
+  private _gitScopeError: string | undefined;
+  private _view: AnalysisView | undefined;
+  private readonly _history: AnalysisHistory;
+  private _previousRun: LastRun | undefined;
+
+  private readonly _onDidChange = new vscode.EventEmitter<void>();
+  /** Fires when the results, filters, baseline, triage or git scope change */
+  public readonly onDidChange = this._onDidChange.event;
+
+  private readonly _onDidChangeActiveIssue = new vscode.EventEmitter<
+    AnalysisIssue | undefined
+  >();
+  /** Fires when another issue is opened from a view or by navigation */
+  public readonly onDidChangeActiveIssue = this._onDidChangeActiveIssue.event;
+
+  private readonly _onDidChangeStatus = new vscode.EventEmitter<string>();
+  /** Fires with the status message when it or the `state` changes */
+  public readonly onDidChangeStatus = this._onDidChangeStatus.event;
+
+  constructor(context: vscode.ExtensionContext) {
+    this._context = context;
+    this._scheduler = new RunScheduler(
+      (signal) => this._analyze(signal),
+      () => getConfig().analysisTimeout
+    );
+    this._history = new AnalysisHistory(context.workspaceState);
+    this._filters = {
+      ...defaultFilters,
+      ...getDefaultFilters(getConfig()),
+      ...context.workspaceState.get<Partial<IssueFilters>>(FILTERS_KEY),
+    };
+
+    // Analyzer settings take effect immediately
+    vscode.workspace.onDidChangeConfiguration(
+      (event) => {
+        if (
+          affectsConfig(
+            event,
+            'analyzer',
+            'sdkPath',
+            'commandPrefix',
+            'extraArgs',
+            'maxOutputSize',
+            'provider',
+            'customCommand'
+          )
+        ) {
+          this._disposeProviders();
+          if (this.hasResults) {
+            this.refresh();
+          }
+        }
+        if (affectsConfig(event, 'baselineFile')) {
+          this._loadBaseline();
+        }
+        if (affectsConfig(event, 'triageFile')) {
+          this._loadTriage();
+        }
+        if (affectsConfig(event, 'triageUser')) {
+          this._loadTriageUser();
+        }
+        // Changed defaults replace the matching filters in the views
+        const defaults = getDefaultFilters(getConfig());
+        const filterChanges: Partial<IssueFilters> = {};
+        if (affectsConfig(event, 'defaultGroupBy')) {
+          filterChanges.groupBy = defaults.groupBy;
+        }
+        if (affectsConfig(event, 'defaultExclude')) {
+          filterChanges.exclude = defaults.exclude;
+        }
+        if (affectsConfig(event, 'defaultHiddenSeverities')) {
+          filterChanges.hiddenSeverities = defaults.hiddenSeverities;
+        }
+        if (Object.keys(filterChanges).length > 0) {
+          this.updateFilters(filterChanges);
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    // Walking the workspace is slow in large trees, so packages are only
+    // searched again when a pubspec or workspace folder comes or goes. Edits
+    // can rename a package or add Flutter.
+    const pubspecWatcher =
+      vscode.workspace.createFileSystemWatcher('**/pubspec.yaml');
+    const forgetPackages = () => (this._packageSearch = undefined);
+    pubspecWatcher.onDidCreate(forgetPackages, null, this._disposables);
+    pubspecWatcher.onDidChange(forgetPackages, null, this._disposables);
+    pubspecWatcher.onDidDelete(forgetPackages, null, this._disposables);
+    this._disposables.push(pubspecWatcher);
+    vscode.workspace.onDidChangeWorkspaceFolders(
+      forgetPackages,
+      null,
+      this._disposables
+    );
+
+    // Saved files and options are not reflected in the results until the
+    // next run
+    vscode.workspace.onDidSaveTextDocument(
+      (document) => {
+        if (affectsAnalysis(document) && this.hasResults) {
+          this._stale = true;
+          this._onDidChangeStatus.fire(this._status);
+        }
+      },
+      null,
+      this._disposables
+    );
+
+    this._loadBaseline();
+    this._loadTriage();
+    this._loadTriageUser();
+  }
+
+  public get issues(): AnalysisIssue[] {
+    return this._analysisResults;
+  }
+
+  public get filters(): IssueFilters {
+    return this._filters;
+  }
+
+  public get source(): ResultSource | undefined {
+    return this._resultSource;
+  }
+
+  public get gitScopeError(): string | undefined {
+    return this._gitScopeError;
+  }
+
+  public get isAnalyzing(): boolean {
+    return this._analyzing;
+  }
+
+  public get state(): AnalysisState {
+    if (this._analyzing) {
+      return 'analyzing';
+    }
+    if (this._failed) {
+      return 'failed';
+    }
+    if (!this.hasResults) {
+      return 'idle';
+    }
+    return this._stale ? 'stale' : 'upToDate';
+  }
+
+  /** Short description of the last analysis, e.g. `Found 3 issues` */
+  public get status(): string {
+    return this._status;
+  }
+
+  /**
+   * Whether there are results to show: from an analysis since the extension
+   * started or restored by `restoreCachedResults`.
+   */
+  public get hasResults(): boolean {
+    return this._resultSource !== undefined;
+  }
+
+  /** The issue last opened, which Go to Next/Previous Issue move on from */
+  public get activeIssue(): AnalysisIssue | undefined {
+    return this._activeIssue;
+  }
+
+  public setActiveIssue(issue: AnalysisIssue | undefined) {
+    if (issue !== this._activeIssue) {
+      this._activeIssue = issue;
+      this._onDidChangeActiveIssue.fire(issue);
+    }
+  }
+
+  /**
+   * Files and folders the results cover when only parts of the workspace
+   * were analyzed; undefined once the whole workspace was.
+   */
+  public get scope(): string[] | undefined {
+    return this._scope;
+  }
+
+  /**
+   * When the results shown were produced, if they were restored from the
+   * cache and no analysis has completed since.
+   */
+  public get restoredAt(): number | undefined {
+    return this._restoredAt;
+  }
+
+  /**
+   * Shows the results cached by the previous session until a new analysis
+   * completes. They are marked stale since files may have changed meanwhile.
+   * Does nothing once there are results.
+   */
+  public restoreCachedResults() {
+    const cached =
+      this._context.workspaceState.get<CachedResults>(CACHED_RESULTS_KEY);
+    if (!cached || this.hasResults) {
+      return;
+    }
+    this._analysisResults = cached.issues;
+    this._resultSource = cached.source;
+    this._scope = cached.scope;
+    this._restoredAt = cached.timestamp;
+    this._stale = true;
+    this._fireChange();
+    const count = cached.issues.length;
+    this._updateStatus(`${count} cached issue${count !== 1 ? 's' : ''}`);
+  }
+
+  /**
+   * Who "assigned to me" refers to: the `dartAnalysisPanel.triageUser`
+   * setting or git's `user.name`.
+   */
+  public get triageUser(): string | undefined {
+    return this._triageUser;
+  }
+
+  /** Completed runs of this workspace, oldest first */
+  public get history(): HistoryEntry[] {
+    return this._history.entries;
+  }
+
+  /** Packages found by the latest analysis */
+  public get packages(): DartPackage[] {
+    return this._packages;
+  }
+
+  /** Dart packages in the workspace folders, cached between runs */
+  public findPackages(): Promise<DartPackage[]> {
+    if (!this._packageSearch) {
+      this._packageSearch = findDartPackages(getWorkspaceFolderPaths());
+    }
+    return this._packageSearch;
+  }
+
+  /** Folders the analyzer runs in, see `getAnalysisRoots` */
+  public get analysisRoots(): string[] {
+    return getAnalysisRoots(this._packages).map((pkg) => pkg.root);
+  }
+
+  /**
+   * Returns the filtered and grouped results. The view is computed once per
+   * change, however many views render it.
+   */
+  public getView(): AnalysisView {
+    if (!this._view) {
+      const issues = this._analysisResults;
+      this._view = {
+        ...applyFilters(issues, this._filters, {
+          baseline: this._baseline,
+          triage: this._triage,
+          triageUser: this._triageUser,
+          changes: this._changedFiles,
+        }),
+        sinceLastRun: this._previousRun
+          ? compareRuns(issues, this._previousRun)
+          : undefined,
+      };
+    }
+    return this._view;
+  }
+
+  /**
+   * Analyzes every package, or only `options.paths`. A request made while a
+   * run is in flight queues one follow-up run instead of being dropped.
+   * Without an explicit analyzer the `dartAnalysisPanel.analyzer` setting
+   * decides.
+   */
+  public refresh(options: RefreshOptions = {}): Promise<void> {
+    this._queueRun(options);
+    return this._scheduler.run();
+  }
+
+  /**
+   * Refreshes once no further calls arrive for the configured debounce
+   * delay, e.g. while several files are saved. Results limited to some
+   * files and folders are refreshed for those only.
+   */
+  public scheduleRefresh() {
+    this._queueRun({ paths: this._scope });
+    this._scheduler.schedule(getConfig().debounceDelay);
+  }
+
+  // Requests for the same run are merged; a full run covers scoped ones
+  private _queueRun(options: RefreshOptions) {
+    const queued = this._nextRun;
+    const paths =
+      queued && !queued.paths
+        ? undefined
+        : options.paths && [...(queued?.paths ?? []), ...options.paths];
+    this._nextRun = {
+      analyzer: options.analyzer ?? queued?.analyzer,
+      interactive: queued?.interactive || options.interactive,
+      paths: paths && Array.from(new Set(paths)),
+    };
+  }
+
+  /**
+   * Stops the current analysis, killing the analyzer process, and forgets
+   * the requests queued for the next run
+   */
+  public cancel() {
+    this._scheduler.cancel();
+    this._nextRun = undefined;
+  }
+
+  private async _analyze(signal: AbortSignal) {
+    const options = this._nextRun ?? {};
+    this._nextRun = undefined;
+    // Only saves from now on can make the results of this run stale
+    this._stale = false;
+    this._failed = false;
+    this._setAnalyzing(true);
+
+    await vscode.window.withProgress(
+      {
+        location: options.interactive
+          ? vscode.ProgressLocation.Notification
+          : vscode.ProgressLocation.Window,
+        title: 'Dart Analysis',
+        cancellable: true,
+      },
+      async (progress, token) => {
+        token.onCancellationRequested(() => this.cancel());
+        const report = (message: string) => {
+          this._updateStatus(message);
+          progress.report({ message });
+        };
+
+        try {
+          report('Finding packages...');
+          const packages = await this.findPackages();
+          if (packages.length === 0) {
+            this._packages = [];
+            this._updateStatus('No Dart packages found');
+            return;
+          }
+
+          this._packages = packages;
+          const analyzer = options.analyzer ?? this._resolveAnalyzer(packages);
+          const analyzerName = analyzer === 'flutter' ? 'Flutter' : 'Dart';
+          report(
+            options.paths
+              ? `${analyzerName} Analyzing ${describePaths(options.paths)}...`
+              : `${analyzerName} Analyzing...`
+          );
+          const outcome = await analyzeWithFallback(
+            this._getProviders(analyzer),
+            this.analysisRoots,
+            signal,
+            options.paths
+          );
+          await this._applyResults(outcome.issues, {
+            provider: outcome.provider.label,
+            fallbacks: outcome.fallbacks,
+            paths: options.paths,
+          });
+          // Scoped runs would add a point per file to the trend
+          if (!options.paths) {
+            await this._recordRun(analyzer, outcome.provider.label);
+          }
+        } catch (error) {
+          if (signal.aborted) {
+            this._handleAbort(signal.reason);
+            return;
+          }
+          const errorMessage =
+            error instanceof Error ? error.message : String(error);
+          this._failed = true;
+          this._updateStatus(`Error: ${errorMessage}`);
+          vscode.window.showErrorMessage(
+            `Dart Analysis Error: ${errorMessage}`
+          );
+        } finally {
+          this._setAnalyzing(false);
+        }
+      }
+    );
+  }
+
+  private _handleAbort(reason: unknown) {
+    const message = reason instanceof Error ? reason.message : String(reason);
+    if (reason instanceof RunTimeoutError) {
+      this._failed = true;
+    } else {
+      // The files may have changed since the results were produced
+      this._stale = this.hasResults;
+    }
+    this._updateStatus(message);
+    if (reason instanceof RunTimeoutError) {
+      vscode.window.showWarningMessage(
+        `Dart Analysis: ${message}. Large projects may need a higher \`dartAnalysisPanel.analysisTimeout\`.`
+      );
+    }
+  }
+
+  private _resolveAnalyzer(packages: DartPackage[]): Analyzer {
+    const setting = getConfig().analyzer;
+    if (setting !== 'auto') {
+      return setting;
+    }
+    return packages.some((pkg) => pkg.usesFlutter) ? 'flutter' : 'dart';
+  }
+
+  private _setAnalyzing(analyzing: boolean) {
+    this._analyzing = analyzing;
+    vscode.commands.executeCommand('setContext', ANALYZING_CONTEXT, analyzing);
+    this._onDidChangeStatus.fire(this._status);
+  }
+
+  private _updateStatus(message: string) {
+    this._status = message;
+    this._onDidChangeStatus.fire(message);
+  }
+
+  private _fireChange() {
+    this._view = undefined;
+    this._onDidChange.fire();
+  }
+
+  /**
+   * Replaces the results, or with `source.paths` only those within the
+   * paths, keeping the issues of every other file.
+   */
+  private async _applyResults(rawIssues: RawIssue[], source: ResultSource) {
+    const { paths } = source;
+    let issues = attributeToPackages(rawIssues, this._packages);
+    if (paths) {
+      // Providers that cannot limit the analysis report everything
+      issues = issues.filter((issue) => isInPaths(issue, paths));
+    }
+    const fingerprints = await fingerprintIssues(issues);
+    issues.forEach((issue, index) => (issue.fingerprint = fingerprints[index]));
+
+    if (paths && this.hasResults) {
+      this._analysisResults = mergeScopedIssues(
+        this._analysisResults,
+        issues,
+        paths
+      );
+      // Results of the whole workspace still cover it
+      this._scope =
+        this._scope && Array.from(new Set([...this._scope, ...paths]));
+    } else {
+      this._analysisResults = issues;
+      this._scope = paths;
+      // Cached results are only replaced by a full run
+      this._restoredAt = undefined;
+    }
+    this._resultSource = source;
+    this._failed = false;
+    this._activeIssue = this._findIssue(this._activeIssue);
+    // Streamed updates outside a run reflect the files as saved
+    if (!this._analyzing) {
+      this._stale = false;
+    }
+    // Saving or committing may have changed what counts as changed
+    await this._loadGitChanges();
+    this._fireChange();
+
+    const count = this._analysisResults.length;
+    this._updateStatus(`Found ${count} issue${count !== 1 ? 's' : ''}`);
+    await this._cacheResults();
+  }
+
+  // The same issue in the current results, e.g. after a refresh
+  private _findIssue(issue: AnalysisIssue | undefined) {
+    return (
+      issue &&
+      this._analysisResults.find(
+        (other) =>
+          other.packageRoot === issue.packageRoot &&
+          other.file === issue.file &&
+          other.line === issue.line &&
+          other.column === issue.column &&
+          other.code === issue.code
+      )
+    );
+  }
+
+  private async _cacheResults() {
+    const cached: CachedResults | undefined =
+      this._analysisResults.length <= MAX_CACHED_ISSUES && this._resultSource
+        ? {
+            timestamp: Date.now(),
+            issues: this._analysisResults,
+            source: this._resultSource,
+            scope: this._scope,
+          }
+        : undefined;
+    await this._context.workspaceState.update(CACHED_RESULTS_KEY, cached);
+  }
+
+  /**
+   * Adds the latest results to the history; the run they replace becomes
+   * the one "since last run" compares with.
+   */
+  private async _recordRun(analyzer: Analyzer, provider: string) {
+    const root = this.analysisRoots[0];
+    this._previousRun = await this._history.record(this._analysisResults, {
+      analyzer,
+      provider,
+      commit: root ? await getHeadCommit(root) : undefined,
+    });
+    this._fireChange();
+  }
+
+  /** Forgets all recorded runs of this workspace */
+  public async clearHistory() {
+    await this._history.clear();
+    this._previousRun = undefined;
+    this._fireChange();
+  }
+
+  /**
+   * Returns the configured providers, creating them on first use or when the
+   * analyzer changes. Streaming providers push their later updates straight
+   * into the results.
+   */
+  private _getProviders(analyzer: Analyzer): AnalysisProvider[] {
+    if (this._providers.length > 0 && this._providersAnalyzer === analyzer) {
+      return this._providers;
+    }
+
+    this._disposeProviders();
+    this._providers = createProviders(analyzer, getConfig());
+    this._providersAnalyzer = analyzer;
+    for (const provider of this._providers) {
+      provider.onDidChangeResults?.(
+        (issues) => {
+          this._streamedUpdates = this._streamedUpdates
+            .then(() =>
+              this._applyResults(issues, {
+                provider: provider.label,
+                fallbacks: [],
+              })
+            )
+            .catch((error) => {
+              this._failed = true;
+              this._updateStatus(
+                `Error: ${error instanceof Error ? error.message : String(error)}`
+              );
+            });
+        },
+        null,
+        this._providerDisposables
+      );
+    }
+    return this._providers;
+  }
+
+  private _disposeProviders() {
+    while (this._providerDisposables.length) {
+      this._providerDisposables.pop()?.dispose();
+    }
+    this._providers.forEach((provider) => provider.dispose?.());
+    this._providers = [];
+    this._providersAnalyzer = undefined;
+  }
+
+  /**
+   * Shows the quick fixes and ignore actions for an issue and re-analyzes
+   * when one of them changed files.
+   */
+  public async showIssueActions(issue: AnalysisIssue) {
+    const triage = issue.fingerprint
+      ? {
+          entry: this._triage.issues[issue.fingerprint],
+          user: this._triageUser,
+          update: (change: TriageChange | undefined) =>
+            this.triageIssue(issue, change),
+        }
+      : undefined;
+    if (await showIssueActions(issue, this.analysisRoots, triage)) {
+      await this.refresh();
+    }
+  }
+
+  /**
+   * Records a triage decision for an issue in the triage file, or clears the
+   * issue's entry when `change` is undefined.
+   */
+  public async triageIssue(
+    issue: AnalysisIssue,
+    change: TriageChange | undefined
+  ) {
+    const file = this._getWorkspacePath(getConfig().triageFile);
+    if (!file) {
+      vscode.window.showErrorMessage(
+        'Dart Analysis: Open a workspace folder to triage issues.'
+      );
+      return;
+    }
+
+    // Start from the file as it is now, someone may have pulled changes
+    const current = (await readTriage(file)) ?? this._triage;
+    const triage = updateTriage(current, issue, change, this._triageUser);
+    try {
+      await writeTriage(file, triage);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+    this._triage = triage;
+    this._fireChange();
+  }
+
+  /**
+   * Enables or disables a lint rule in the package's analysis options and
+   * re-analyzes.
+   */
+  public async setLintRule(packageRoot: string, code: string, enabled: boolean) {
+    await this._editOptions(
+      () => setLintRule(packageRoot, code, enabled),
+      `${enabled ? 'Enabled' : 'Disabled'} ${code}`
+    );
+  }
+
+  /**
+   * Overrides the severity of a diagnostic in the package's analysis options,
+   * or removes the override, and re-analyzes.
+   */
+  public async setDiagnosticSeverity(
+    packageRoot: string,
+    code: string,
+    severity: DiagnosticSeverity | undefined
+  ) {
+    await this._editOptions(
+      () => setDiagnosticSeverity(packageRoot, code, severity),
+      severity
+        ? `Set ${code} to ${severity}`
+        : `Removed the severity override of ${code}`
+    );
+  }
+
+  private async _editOptions(edit: () => Promise<string>, summary: string) {
+    try {
+      const file = await edit();
+      vscode.window.showInformationMessage(
+        `Dart Analysis: ${summary} in ${vscode.workspace.asRelativePath(file)}.`
+      );
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+    await this.refresh();
+  }
+
+  /**
+   * Snapshots the current results into the baseline file so that only issues
+   * introduced afterwards are reported as new.
+   */
+  public async createBaseline() {
+    const file = this._getWorkspacePath(getConfig().baselineFile);
+    if (!file) {
+      vscode.window.showErrorMessage(
+        'Dart Analysis: Open a workspace folder to create a baseline.'
+      );
+      return;
+    }
+
+    // A baseline of some files would turn every other issue into a new one
+    if (this._scope) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: The results only cover ${describePaths(
+          this._scope
+        )}. Analyze the whole workspace before creating a baseline.`
+      );
+      return;
+    }
+    if (this._filters.scope !== 'all') {
+      const create = 'Create Baseline';
+      const choice = await vscode.window.showWarningMessage(
+        'The baseline records the issues of every file, not only the changed files the git scope shows.',
+        { modal: true },
+        create
+      );
+      if (choice !== create) {
+        return;
+      }
+    }
+
+    const baseline = createBaseline(this._analysisResults);
+    try {
+      await writeBaseline(file, baseline);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: Could not write the baseline: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return;
+    }
+    this._baseline = baseline;
+    this._fireChange();
+    vscode.window.showInformationMessage(
+      `Dart Analysis: Baseline with ${baseline.issues.length} issue${
+        baseline.issues.length !== 1 ? 's' : ''
+      } written to ${vscode.workspace.asRelativePath(file)}.`
+    );
+  }
+
+  /**
+   * Writes the issues that pass the current filters to a file in one of the
+   * supported report formats.
+   */
+  public async exportResults() {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage(
+        'Dart Analysis: Open a workspace folder to export results.'
+      );
+      return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+      (Object.keys(exporters) as ExportFormat[]).map((format) => ({
+        label: exporters[format].label,
+        description: exporters[format].description,
+        format,
+      })),
+      { title: 'Export Analysis Results', placeHolder: 'Choose a format' }
+    );
+    if (!picked) {
+      return;
+    }
+
+    const exporter = exporters[picked.format];
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(
+        workspaceFolder.uri,
+        `dart_analysis.${exporter.extension}`
+      ),
+      filters: { [exporter.label]: [exporter.extension] },
+    });
+    if (!target) {
+      return;
+    }
+
+    const view = this.getView();
+    const issues = view.visible.map((index) => view.issues[index]);
+    const content = exporter.write(issues, {
+      rootPath: workspaceFolder.uri.fsPath,
+      toolVersion: this._context.extension.packageJSON.version,
+    });
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: Could not write the export: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return;
+    }
+    vscode.window.showInformationMessage(
+      `Dart Analysis: Exported ${issues.length} issue${
+        issues.length !== 1 ? 's' : ''
+      } to ${vscode.workspace.asRelativePath(target)}.`
+    );
+  }
+
+  /**
+   * Analyzes two git refs, each in a temporary worktree with its own
+   * dependencies, and matches their issues, e.g. to see which issues an SDK
+   * or lint package upgrade introduces before merging it. Only the packages
+   * in the repository of the first one are compared.
+   */
+  public async compareRefs(): Promise<RefComparison | undefined> {
+    const packages = await this.findPackages();
+    if (packages.length === 0) {
+      vscode.window.showErrorMessage(
+        'Dart Analysis: No Dart packages found to compare.'
+      );
+      return undefined;
+    }
+
+    let repoRoot: string;
+    let branches: string[];
+    try {
+      repoRoot = await getRepositoryRoot(packages[0].root);
+      branches = await listBranches(repoRoot);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+
+    const baseBranch = this._filters.baseBranch;
+    const base = await pickRef(
+      'Compare Refs: Base',
+      baseBranch
+        ? [baseBranch, ...branches.filter((branch) => branch !== baseBranch)]
+        : branches
+    );
+    if (!base) {
+      return undefined;
+    }
+    const head = await pickRef('Compare Refs: Head', ['HEAD', ...branches]);
+    if (!head) {
+      return undefined;
+    }
+
+    const config = getConfig();
+    const analyzer = this._resolveAnalyzer(packages);
+    const tool = getToolCommand(config, analyzer);
+    const providers = createCheckoutProviders(analyzer, config);
+    const repoPackages = packages.filter(
+      (pkg) => !path.relative(repoRoot, pkg.root).startsWith('..')
+    );
+    const controller = new AbortController();
+
+    try {
+      return await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: `Dart Analysis: Comparing ${base} with ${head}`,
+          cancellable: true,
+        },
+        async (progress, token) => {
+          token.onCancellationRequested(() =>
+            controller.abort(new Error('Comparison cancelled'))
+          );
+          const analysis: CheckoutAnalysis = {
+            getDependencies: async (root, signal) => {
+              await runCommand(`${tool} pub get`, root, { signal });
+            },
+            analyze: async (roots, signal) =>
+              (await analyzeWithFallback(providers, roots, signal)).issues,
+            report: (message) => progress.report({ message }),
+          };
+          const baseResults = await analyzeRef(
+            repoRoot,
+            base,
+            repoPackages,
+            analysis,
+            controller.signal
+          );
+          const headResults = await analyzeRef(
+            repoRoot,
+            head,
+            repoPackages,
+            analysis,
+            controller.signal
+          );
+          return compareRefResults(baseResults, headResults);
+        }
+      );
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        vscode.window.showErrorMessage(
+          `Dart Analysis: Comparing ${base} with ${head} failed: ${
+            error instanceof Error ? error.message : String(error)
+          }`
+        );
+      }
+      return undefined;
+    } finally {
+      providers.forEach((provider) => provider.dispose?.());
+    }
+  }
+
+  /** Saves a comparison of two refs as a Markdown report */
+  public async exportRefComparison(comparison: RefComparison) {
+    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    if (!workspaceFolder) {
+      vscode.window.showErrorMessage(
+        'Dart Analysis: Open a workspace folder to export the comparison.'
+      );
+      return;
+    }
+    const name = `${comparison.base.ref}..${comparison.head.ref}`.replace(
+      /[^\w.-]+/g,
+      '_'
+    );
+    const target = await vscode.window.showSaveDialog({
+      defaultUri: vscode.Uri.joinPath(
+        workspaceFolder.uri,
+        `dart_analysis_${name}.md`
+      ),
+      filters: { Markdown: ['md'] },
+    });
+    if (!target) {
+      return;
+    }
+
+    const content = writeComparisonMarkdown(comparison, {
+      rootPath: workspaceFolder.uri.fsPath,
+    });
+    try {
+      await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: Could not write the comparison: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+      return;
+    }
+    vscode.window.showInformationMessage(
+      `Dart Analysis: Comparison saved to ${vscode.workspace.asRelativePath(
+        target
+      )}.`
+    );
+  }
+
+  /** Resolves a file setting against the first workspace folder */
+  private _getWorkspacePath(file: string): string | undefined {
+    const workspaceFolders = vscode.workspace.workspaceFolders;
+    if (!workspaceFolders || workspaceFolders.length === 0) {
+      return undefined;
+    }
+    return path.resolve(workspaceFolders[0].uri.fsPath, file);
+  }
+
+  /**
+   * Loads the baseline file and keeps it up to date when it changes on disk,
+   * e.g. after a pull.
+   */
+  private async _loadBaseline() {
+    this._baselineWatcher?.dispose();
+    this._baselineWatcher = undefined;
+
+    const file = this._getWorkspacePath(getConfig().baselineFile);
+    this._baseline = file ? await readBaseline(file) : undefined;
+    if (file) {
+      const watcher = vscode.workspace.createFileSystemWatcher(file);
+      const reload = async () => {
+        this._baseline = await readBaseline(file);
+        this._fireChange();
+      };
+      watcher.onDidCreate(reload);
+      watcher.onDidChange(reload);
+      watcher.onDidDelete(reload);
+      this._baselineWatcher = watcher;
+    }
+    this._fireChange();
+  }
+
+  /**
+   * Loads the triage file and reloads it when teammates' decisions arrive,
+   * e.g. after a pull.
+   */
+  private async _loadTriage() {
+    this._triageWatcher?.dispose();
+    this._triageWatcher = undefined;
+
+    const file = this._getWorkspacePath(getConfig().triageFile);
+    this._triage = (file && (await readTriage(file))) || createTriage();
+    if (file) {
+      const watcher = vscode.workspace.createFileSystemWatcher(file);
+      const reload = async () => {
+        this._triage = (await readTriage(file)) ?? createTriage();
+        this._fireChange();
+      };
+      watcher.onDidCreate(reload);
+      watcher.onDidChange(reload);
+      watcher.onDidDelete(reload);
+      this._triageWatcher = watcher;
+    }
+    this._fireChange();
+  }
+
+  private async _loadTriageUser() {
+    const folder = vscode.workspace.workspaceFolders?.[0];
+    this._triageUser =
+      getConfig().triageUser.trim() ||
+      (folder ? await getGitUser(folder.uri.fsPath) : undefined);
+    this._fireChange();
+  }
+
+  /**
+   * Applies filter changes and remembers them for this workspace.
+   * `toggleSeverities` flips the visibility of the given severities.
+   */
+  public async updateFilters(
+    changes: Partial<IssueFilters> & { toggleSeverities?: IssueSeverity[] }
+  ) {
+    const { toggleSeverities, ...filterChanges } = changes;
+    const filters = { ...this._filters, ...filterChanges };
+    if (toggleSeverities) {
+      const hidden = toggleSeverities.every((severity) =>
+        filters.hiddenSeverities.includes(severity)
+      );
+      filters.hiddenSeverities = hidden
+        ? filters.hiddenSeverities.filter(
+            (severity) => !toggleSeverities.includes(severity)
+          )
+        : [...new Set([...filters.hiddenSeverities, ...toggleSeverities])];
+    }
+    if (filters.scope === 'branch' && !filters.baseBranch) {
+      const baseBranch = await this.chooseBaseBranch();
+      if (!baseBranch) {
+        // Keep the previous scope so that the views revert the selection
+        this._fireChange();
+        return;
+      }
+      filters.baseBranch = baseBranch;
+    }
+
+    const scopeChanged =
+      filters.scope !== this._filters.scope ||
+      filters.baseBranch !== this._filters.baseBranch;
+    this._filters = filters;
+    await this._context.workspaceState.update(FILTERS_KEY, filters);
+    if (scopeChanged) {
+      await this._loadGitChanges();
+    }
+    this._fireChange();
+  }
+
+  /**
+   * Collects the git changes the current scope needs from every analysis
+   * root. Roots that are not in a git repository are reported but do not
+   * hide the issues of the other roots.
+   */
+  private async _loadGitChanges() {
+    const { scope, baseBranch } = this._filters;
+    if (scope === 'all') {
+      this._changedFiles = undefined;
+      this._gitScopeError = undefined;
+      return;
+    }
+
+    const { changes, error } = await getChangedFilesOf(
+      this.analysisRoots,
+      scope === 'workingTree' ? undefined : baseBranch || undefined
+    );
+    this._changedFiles = changes;
+    this._gitScopeError = error;
+  }
+
+  /** Lets the user pick the branch that git scopes compare against */
+  public async chooseBaseBranch(): Promise<string | undefined> {
+    const root =
+      this.analysisRoots[0] ??
+      vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    if (!root) {
+      return undefined;
+    }
+
+    let branches: string[];
+    try {
+      branches = await listBranches(root);
+    } catch (error) {
+      vscode.window.showErrorMessage(
+        `Dart Analysis: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+
+    return vscode.window.showQuickPick(branches, {
+      title: 'Compare Against Branch',
+      placeHolder: this._filters.baseBranch || 'Choose the base branch',
+    });
+  }
+
+  public dispose() {
+    this._scheduler.dispose();
+    this._disposeProviders();
+    this._baselineWatcher?.dispose();
+    this._triageWatcher?.dispose();
+    this._onDidChange.dispose();
+    this._onDidChangeActiveIssue.dispose();
+    this._onDidChangeStatus.dispose();
+
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+}
+
+function getWorkspaceFolderPaths(): string[] {
+  return (vscode.workspace.workspaceFolders ?? []).map(
+    (folder) => folder.uri.fsPath
+  );
+}
+
+// Lets the user pick one of the refs or type any other, e.g. a tag or commit
+function pickRef(title: string, refs: string[]): Promise<string | undefined> {
+  return new Promise((resolve) => {
+    const quickPick = vscode.window.createQuickPick();
+    quickPick.title = title;
+    quickPick.placeholder = 'Choose a branch or type a tag or commit';
+    const update = () => {
+      const typed = quickPick.value.trim();
+      quickPick.items = [
+        ...(typed && !refs.includes(typed)
+          ? [{ label: typed, description: 'Other ref' }]
+          : []),
+        ...refs.map((ref) => ({ label: ref })),
+      ];
+    };
+    quickPick.onDidChangeValue(update);
+    quickPick.onDidAccept(() => {
+      resolve(quickPick.selectedItems[0]?.label);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      resolve(undefined);
+      quickPick.dispose();
+    });
+    update();
+    quickPick.show();
+  });
+}
+
+// Short description of analyzed paths for progress messages
+function describePaths(paths: string[]): string {
+  const first = vscode.workspace.asRelativePath(paths[0]);
+  return paths.length > 1 ? `${first} and ${paths.length - 1} more` : first;
+}
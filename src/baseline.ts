@@ -0,0 +1,141 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisIssue } from './analysisIssue';
+
+export interface BaselineEntry {
+  fingerprint: string;
+  file: string;
+  code: string;
+  message: string;
+}
+
+export interface Baseline {
+  version: 1;
+  createdAt: string;
+  issues: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+  /** Indexes of the current issues that are covered by the baseline */
+  baselined: Set<number>;
+  newCount: number;
+  /** Baseline entries that no longer match any issue */
+  fixed: BaselineEntry[];
+  fixedCount: number;
+}
+
+/**
+ * Computes a fingerprint for every issue from its package, file, code and
+ * the whitespace-normalized text of the line it is on. Line numbers are left
+ * out so that edits elsewhere in the file do not change the fingerprint.
+ */
+export async function fingerprintIssues(
+  issues: AnalysisIssue[]
+): Promise<string[]> {
+  const lineCache = new Map<string, Promise<string[]>>();
+  const readLines = (file: string) => {
+    let lines = lineCache.get(file);
+    if (!lines) {
+      lines = fs
+        .readFile(file, 'utf8')
+        .then((content) => content.split(/\r?\n/))
+        .catch(() => []);
+      lineCache.set(file, lines);
+    }
+    return lines;
+  };
+
+  return Promise.all(
+    issues.map(async (issue) => {
+      const lines = await readLines(path.join(issue.packageRoot, issue.file));
+      const snippet = (lines[issue.line - 1] ?? '').replace(/\s+/g, ' ').trim();
+      return crypto
+        .createHash('sha1')
+        .update(
+          [
+            issue.packageName,
+            issue.file.replace(/\\/g, '/'),
+            issue.code,
+            snippet,
+          ].join('\0')
+        )
+        .digest('hex');
+    })
+  );
+}
+
+export function createBaseline(issues: AnalysisIssue[]): Baseline {
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    issues: issues
+      .filter((issue) => issue.fingerprint)
+      .map((issue) => ({
+        fingerprint: issue.fingerprint!,
+        file: `${issue.packageName}/${issue.file.replace(/\\/g, '/')}`,
+        code: issue.code,
+        message: issue.message,
+      }))
+      .sort(
+        (a, b) =>
+          a.file.localeCompare(b.file) ||
+          a.code.localeCompare(b.code) ||
+          a.fingerprint.localeCompare(b.fingerprint)
+      ),
+  };
+}
+
+/**
+ * Matches issues against the baseline. Fingerprints are counted so that a
+ * baseline with two identical entries only covers two matching issues.
+ */
+export function compareWithBaseline(
+  issues: AnalysisIssue[],
+  baseline: Baseline
+): BaselineComparison {
+  const remaining = new Map<string, BaselineEntry[]>();
+  for (const entry of baseline.issues) {
+    const entries = remaining.get(entry.fingerprint);
+    if (entries) {
+      entries.push(entry);
+    } else {
+      remaining.set(entry.fingerprint, [entry]);
+    }
+  }
+
+  const baselined = new Set<number>();
+  issues.forEach((issue, index) => {
+    const entries = issue.fingerprint
+      ? remaining.get(issue.fingerprint)
+      : undefined;
+    if (entries?.length) {
+      entries.pop();
+      baselined.add(index);
+    }
+  });
+
+  const fixed = Array.from(remaining.values()).flat();
+  return {
+    baselined,
+    newCount: issues.length - baselined.size,
+    fixed,
+    fixedCount: fixed.length,
+  };
+}
+
+export async function readBaseline(file: string): Promise<Baseline | undefined> {
+  try {
+    const baseline = JSON.parse(await fs.readFile(file, 'utf8'));
+    return Array.isArray(baseline.issues) ? baseline : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export async function writeBaseline(
+  file: string,
+  baseline: Baseline
+): Promise<void> {
+  await fs.writeFile(file, JSON.stringify(baseline, null, 2) + '\n', 'utf8');
+}
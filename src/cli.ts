@@ -0,0 +1,223 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs';
+import { parseArgs } from 'util';
+import { IssueSeverity } from './analysisIssue';
+import { GroupBy, IssueFilters } from './filters';
+import { GitScope } from './gitScope';
+import {
+  HeadlessOptions,
+  SEVERITIES,
+  analyzeFolder,
+  countAtOrAbove,
+  createHtmlReport,
+  formatTerminalReport,
+} from './headless';
+
+const USAGE = `Usage: dart-analysis [folder] [options]
+
+Analyzes the Dart and Flutter packages in a folder (default: the current
+folder) and prints the issues grouped like the Dart Analysis panel.
+
+Analysis:
+  --analyzer <auto|dart|flutter>   Analyzer to run (default: auto)
+  --sdk-path <dir>                 Folder containing the dart or flutter tool
+  --command-prefix <command>       Command put before the tool, e.g. "fvm"
+  --extra-arg <arg>                Argument passed to analyze, repeatable
+  --provider <auto|json|machine|text|command>
+                                   Output format to read (default: auto)
+  --command <command>              Shell command used by --provider command
+  --max-output-size <megabytes>    Largest analyzer output accepted
+
+Filters:
+  --search <text>                  Only issues mentioning the text
+  --include <globs>                Only files matching the comma-separated globs
+  --exclude <globs>                Hide files matching the comma-separated globs
+  --hide <severities>              Hide the comma-separated severities
+  --group-by <file|code|severity|directory>
+  --baseline <file>                Baseline file, dart_analysis_baseline.json
+                                   by default
+  --new-only                       Hide the issues recorded in the baseline
+  --triage <file>                  Triage file, dart_analysis_triage.json by
+                                   default
+  --triage-user <name>             Who --assigned-to-me refers to
+  --hide-triaged                   Hide reviewed, won't-fix and snoozed issues
+  --assigned-to-me                 Only issues assigned to --triage-user
+  --scope <all|workingTree|branch|lines>
+  --base-branch <branch>           Branch that the branch and lines scopes
+                                   compare with
+
+Output:
+  --html <file>                    Also write the report as an HTML page
+  --fail-on <error|warning|info|hint|none>
+                                   Exit with 1 when a shown issue is at least
+                                   this severe (default: error)
+  --no-color                       Print without colors
+  -h, --help                       Show this help
+
+Exit codes: 0 when no shown issue reaches --fail-on, 1 when one does, and 2
+when the options are invalid or the analysis fails.`;
+
+class UsageError extends Error {}
+
+async function main(argv: string[]): Promise<number> {
+  const { values, positionals } = parseOptions(argv);
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length > 1) {
+    throw new UsageError('Only one folder can be analyzed at a time.');
+  }
+
+  const failOn = oneOf<IssueSeverity | 'none'>(
+    'fail-on',
+    values['fail-on'] ?? 'error',
+    [...SEVERITIES, 'none']
+  );
+  const maxOutputSize =
+    values['max-output-size'] !== undefined
+      ? Number(values['max-output-size'])
+      : undefined;
+  if (maxOutputSize !== undefined && !(maxOutputSize > 0)) {
+    throw new UsageError('--max-output-size must be a positive number.');
+  }
+  if (values.provider === 'command' && !values.command) {
+    throw new UsageError('--provider command needs --command.');
+  }
+
+  const filters: Partial<IssueFilters> = {
+    search: values.search,
+    include: values.include,
+    exclude: values.exclude,
+    hiddenSeverities: values.hide
+      ?.split(',')
+      .map((severity) => oneOf('hide', severity.trim(), SEVERITIES)),
+    groupBy: oneOf<GroupBy>('group-by', values['group-by'] ?? 'file', [
+      'file',
+      'code',
+      'severity',
+      'directory',
+    ]),
+    newOnly: values['new-only'],
+    hideTriaged: values['hide-triaged'],
+    assignedToMe: values['assigned-to-me'],
+    scope: oneOf<GitScope>('scope', values.scope ?? 'all', [
+      'all',
+      'workingTree',
+      'branch',
+      'lines',
+    ]),
+    baseBranch: values['base-branch'],
+  };
+  const options: HeadlessOptions = {
+    folder: positionals[0] ?? '.',
+    analyzer: oneOf('analyzer', values.analyzer ?? 'auto', [
+      'auto',
+      'dart',
+      'flutter',
+    ] as const),
+    sdkPath: values['sdk-path'],
+    commandPrefix: values['command-prefix'],
+    extraArgs: values['extra-arg'],
+    provider: oneOf('provider', values.provider ?? 'auto', [
+      'auto',
+      'json',
+      'machine',
+      'text',
+      'command',
+    ] as const),
+    customCommand: values.command,
+    maxOutputSize,
+    // Unset options keep their defaults
+    filters: Object.fromEntries(
+      Object.entries(filters).filter(([, value]) => value !== undefined)
+    ),
+    baselineFile: values.baseline,
+    triageFile: values.triage,
+    triageUser: values['triage-user'],
+  };
+
+  const results = await analyzeFolder(options);
+  if (results.gitScopeError) {
+    console.error(`Warning: ${results.gitScopeError}`);
+  }
+  for (const fallback of results.source?.fallbacks ?? []) {
+    console.error(`Warning: ${fallback.provider} failed: ${fallback.reason}`);
+  }
+  process.stdout.write(
+    formatTerminalReport(
+      results,
+      !values['no-color'] && process.stdout.isTTY && !process.env.NO_COLOR
+    )
+  );
+  if (values.html) {
+    await fs.writeFile(values.html, await createHtmlReport(results));
+    console.log(`Wrote ${values.html}`);
+  }
+
+  return failOn !== 'none' && countAtOrAbove(results, failOn) > 0 ? 1 : 0;
+}
+
+function parseOptions(argv: string[]) {
+  try {
+    return parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        analyzer: { type: 'string' },
+        'sdk-path': { type: 'string' },
+        'command-prefix': { type: 'string' },
+        'extra-arg': { type: 'string', multiple: true },
+        provider: { type: 'string' },
+        command: { type: 'string' },
+        'max-output-size': { type: 'string' },
+        search: { type: 'string' },
+        include: { type: 'string' },
+        exclude: { type: 'string' },
+        hide: { type: 'string' },
+        'group-by': { type: 'string' },
+        baseline: { type: 'string' },
+        'new-only': { type: 'boolean' },
+        triage: { type: 'string' },
+        'triage-user': { type: 'string' },
+        'hide-triaged': { type: 'boolean' },
+        'assigned-to-me': { type: 'boolean' },
+        scope: { type: 'string' },
+        'base-branch': { type: 'string' },
+        html: { type: 'string' },
+        'fail-on': { type: 'string' },
+        'no-color': { type: 'boolean' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+  } catch (error) {
+    // Unknown options and missing values
+    throw new UsageError(
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+}
+
+function oneOf<T extends string>(
+  option: string,
+  value: string,
+  allowed: readonly T[]
+): T {
+  if (!(allowed as readonly string[]).includes(value)) {
+    throw new UsageError(
+      `Invalid --${option} "${value}", expected one of: ${allowed.join(', ')}.`
+    );
+  }
+  return value as T;
+}
+
+main(process.argv.slice(2)).then(
+  (code) => (process.exitCode = code),
+  (error) => {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(
+      error instanceof UsageError ? `${message}\n\n${USAGE}` : message
+    );
+    process.exitCode = 2;
+  }
+);
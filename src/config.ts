@@ -0,0 +1,118 @@
+import * as vscode from 'vscode';
+import { IssueSeverity } from './analysisIssue';
+import { GroupBy, IssueFilters } from './filters';
+import { Analyzer } from './providers/cliProvider';
+
+export const CONFIG_SECTION = 'dartAnalysisPanel';
+
+export type AnalyzerSetting = 'auto' | Analyzer;
+
+export type ProviderSetting =
+  | 'auto'
+  | 'json'
+  | 'machine'
+  | 'text'
+  | 'editor'
+  | 'command'
+  | 'analysisServer';
+
+/**
+ * Typed view of the `dartAnalysisPanel.*` settings. Read it with `getConfig`
+ * whenever it is needed rather than caching it, so that changes apply
+ * without a reload.
+ */
+export interface ExtensionConfig {
+  /** `auto` picks `flutter` when any package depends on the Flutter SDK */
+  analyzer: AnalyzerSetting;
+  /** SDK root containing `bin/dart` and `bin/flutter`; empty uses PATH */
+  sdkPath: string;
+  /** Wrapper put in front of the analyzer, e.g. `fvm` or `puro` */
+  commandPrefix: string;
+  extraArgs: string[];
+  provider: ProviderSetting;
+  customCommand: string;
+  /** Largest analyzer output accepted, in megabytes */
+  maxOutputSize: number;
+  /** Shows the counts in the status bar, analyzing in the background */
+  showStatusBar: boolean;
+  /** Also reports the results in the Problems view and as squiggles */
+  publishDiagnostics: boolean;
+  /** Per-file CodeLens summary and gutter markers in Dart editors */
+  editorSummary: boolean;
+  refreshOnSave: boolean;
+  /** Seconds between automatic refreshes; 0 turns them off */
+  refreshInterval: number;
+  /** Milliseconds to wait after a save before analyzing */
+  debounceDelay: number;
+  /** Seconds before a run is cancelled; 0 waits forever */
+  analysisTimeout: number;
+  /** Least severe issues that Go to Next/Previous Issue stop at */
+  navigationMinSeverity: IssueSeverity;
+  baselineFile: string;
+  /** Workspace-relative JSON file with the triage state of issues */
+  triageFile: string;
+  /** Name matched against assignees; empty uses git's `user.name` */
+  triageUser: string;
+  defaultGroupBy: GroupBy;
+  defaultExclude: string;
+  defaultHiddenSeverities: IssueSeverity[];
+}
+
+export function getConfig(): ExtensionConfig {
+  const config = vscode.workspace.getConfiguration(CONFIG_SECTION);
+  return {
+    analyzer: config.get<AnalyzerSetting>('analyzer', 'auto'),
+    sdkPath: config.get<string>('sdkPath', ''),
+    commandPrefix: config.get<string>('commandPrefix', ''),
+    extraArgs: config.get<string[]>('extraArgs', []),
+    provider: config.get<ProviderSetting>('provider', 'auto'),
+    customCommand: config.get<string>('customCommand', ''),
+    maxOutputSize: config.get<number>('maxOutputSize', 10),
+    showStatusBar: config.get<boolean>('showStatusBar', true),
+    publishDiagnostics: config.get<boolean>('publishDiagnostics', false),
+    editorSummary: config.get<boolean>('editorSummary', true),
+    refreshOnSave: config.get<boolean>('refreshOnSave', true),
+    refreshInterval: config.get<number>('refreshInterval', 30),
+    debounceDelay: config.get<number>('debounceDelay', 500),
+    analysisTimeout: config.get<number>('analysisTimeout', 300),
+    navigationMinSeverity: config.get<IssueSeverity>(
+      'navigationMinSeverity',
+      'hint'
+    ),
+    baselineFile: config.get<string>(
+      'baselineFile',
+      'dart_analysis_baseline.json'
+    ),
+    triageFile: config.get<string>('triageFile', 'dart_analysis_triage.json'),
+    triageUser: config.get<string>('triageUser', ''),
+    defaultGroupBy: config.get<GroupBy>('defaultGroupBy', 'file'),
+    defaultExclude: config.get<string>('defaultExclude', ''),
+    defaultHiddenSeverities: config.get<IssueSeverity[]>(
+      'defaultHiddenSeverities',
+      []
+    ),
+  };
+}
+
+/**
+ * Whether a configuration change touches any of the given settings.
+ */
+export function affectsConfig(
+  event: vscode.ConfigurationChangeEvent,
+  ...keys: (keyof ExtensionConfig)[]
+): boolean {
+  return keys.some((key) =>
+    event.affectsConfiguration(`${CONFIG_SECTION}.${key}`)
+  );
+}
+
+/** Filters used until the user changes them in a view */
+export function getDefaultFilters(
+  config: ExtensionConfig
+): Partial<IssueFilters> {
+  return {
+    groupBy: config.defaultGroupBy,
+    exclude: config.defaultExclude,
+    hiddenSeverities: config.defaultHiddenSeverities,
+  };
+}
@@ -1,30 +1,44 @@
 import * as vscode from 'vscode';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import * as path from 'path';
-
-const execAsync = promisify(exec);
-
-export interface AnalysisIssue {
-  severity: 'error' | 'warning' | 'info' | 'hint';
-  code: string;
-  message: string;
-  file: string;
-  line: number;
-  column: number;
-}
+import { AnalysisIssue } from './analysisIssue';
+import { AnalysisService } from './analysisService';
+import { openIssue, openLocation } from './navigation';
+import { createUpdateMessage, getPanelHtml } from './panelHtml';
+import { RefComparison } from './refComparison';
+import { readSnippet } from './snippets';
+import {
+  RuleDetails,
+  RulesOverview,
+  getRuleDetails,
+  getRulesOverview,
+} from './ruleDetails';
+
+const COMPARISON_LISTS = ['introduced', 'resolved', 'unchanged'] as const;
+
+// What the side pane shows; it is recomputed whenever the results change
+type SidePane =
+  | { kind: 'rule'; code: string; packageRoot: string; issue?: AnalysisIssue }
+  | { kind: 'rules'; packageRoot: string };
 
 export class DartAnalysisPanel {
   public static currentPanel: DartAnalysisPanel | undefined;
   public static readonly viewType = 'dartAnalysisView';
 
   private readonly _panel: vscode.WebviewPanel;
+  private readonly _service: AnalysisService;
   private readonly _extensionUri: vscode.Uri;
   private _disposables: vscode.Disposable[] = [];
-  private _analysisResults: AnalysisIssue[] = [];
-  private _isAnalyzing = false;
-
-  public static createOrShow(extensionUri: vscode.Uri): DartAnalysisPanel | undefined {
+  private _sentResults: AnalysisIssue[] | undefined;
+  private _pane: SidePane | undefined;
+  // Last contents posted to the side pane, for its links
+  private _ruleDetails: RuleDetails | undefined;
+  private _rulesOverview: RulesOverview | undefined;
+  private _comparison: RefComparison | undefined;
+
+  public static createOrShow(
+    context: vscode.ExtensionContext,
+    service: AnalysisService
+  ): DartAnalysisPanel | undefined {
     const column = vscode.window.activeTextEditor
       ? vscode.window.activeTextEditor.viewColumn
       : undefined;
@@ -41,32 +55,54 @@ export class DartAnalysisPanel {
       'Dart Analysis',
       column || vscode.ViewColumn.Two,
       {
-        enableScripts: true,
-        localResourceRoots: [extensionUri],
+        ...getWebviewOptions(context.extensionUri),
         retainContextWhenHidden: true,
       }
     );
 
     DartAnalysisPanel.currentPanel = new DartAnalysisPanel(
       panel,
-      extensionUri
+      context,
+      service
     );
     return DartAnalysisPanel.currentPanel;
   }
 
-  public static revive(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+  /**
+   * Takes over a panel that VS Code restored after a window reload. Its
+   * webview keeps the collapsed groups and scroll position; the results come
+   * from the service's cache until the background refresh completes.
+   */
+  public static revive(
+    panel: vscode.WebviewPanel,
+    context: vscode.ExtensionContext,
+    service: AnalysisService
+  ) {
+    panel.webview.options = getWebviewOptions(context.extensionUri);
+    service.restoreCachedResults();
     DartAnalysisPanel.currentPanel = new DartAnalysisPanel(
       panel,
-      extensionUri
+      context,
+      service
     );
   }
 
-  private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri) {
+  /** Whether the panel's tab is showing, not just open */
+  public get visible(): boolean {
+    return this._panel.visible;
+  }
+
+  private constructor(
+    panel: vscode.WebviewPanel,
+    context: vscode.ExtensionContext,
+    service: AnalysisService
+  ) {
     this._panel = panel;
-    this._extensionUri = extensionUri;
+    this._service = service;
+    this._extensionUri = context.extensionUri;
 
-    // Set the webview's initial html content
-    this._update();
+    // Set the webview's static html; results are posted once it is ready
+    this._panel.webview.html = this._getHtmlForWebview(this._panel.webview);
 
     // Listen for when the panel is disposed
     // This happens when the user closes the panel or when the panel is closed programmatically
@@ -79,321 +115,313 @@ export class DartAnalysisPanel {
     // Handle messages from the webview
     this._panel.webview.onDidReceiveMessage(
       async (message) => {
+        const issue = this._service.issues[message.index];
         switch (message.command) {
+          case 'ready':
+            // A reloaded webview has lost everything it was sent before
+            this._sentResults = undefined;
+            this._update();
+            this._updateStatus(this._service.status);
+            this._postComparison();
+            await this._postPane();
+            return;
           case 'refresh':
-            await this.refresh('flutter');
+            await this._service.refresh({ interactive: true });
             return;
           case 'flutterAnalyze':
-            await this.refresh('flutter');
+            await this._service.refresh({
+              analyzer: 'flutter',
+              interactive: true,
+            });
+            return;
+          case 'updateFilters':
+            await this._service.updateFilters(message.filters);
+            return;
+          case 'chooseBaseBranch': {
+            const baseBranch = await this._service.chooseBaseBranch();
+            if (baseBranch) {
+              await this._service.updateFilters({ baseBranch });
+            }
             return;
+          }
           case 'openFile':
-            if (message.file && message.line) {
-              const workspaceFolders = vscode.workspace.workspaceFolders;
-              if (workspaceFolders && workspaceFolders.length > 0) {
-                const workspaceRoot = workspaceFolders[0].uri.fsPath;
-                const fullPath = path.isAbsolute(message.file)
-                  ? message.file
-                  : path.join(workspaceRoot, message.file);
-                const uri = vscode.Uri.file(fullPath);
-                const document =
-                  await vscode.workspace.openTextDocument(uri);
-                const editor = await vscode.window.showTextDocument(document);
-                const position = new vscode.Position(
-                  message.line - 1,
-                  message.column - 1 || 0
-                );
-                editor.selection = new vscode.Selection(position, position);
-                editor.revealRange(
-                  new vscode.Range(position, position),
-                  vscode.TextEditorRevealType.InCenter
+            this._service.setActiveIssue(issue);
+            await openIssue(issue);
+            return;
+          case 'issueActions':
+            if (issue) {
+              await this._service.showIssueActions(issue);
+            }
+            return;
+          case 'openContext': {
+            const context = issue?.contextMessages?.[message.contextIndex];
+            if (context) {
+              await openLocation(context.file, context.line, context.column);
+            }
+            return;
+          }
+          case 'openDocumentation':
+            if (issue?.documentation) {
+              await vscode.env.openExternal(
+                vscode.Uri.parse(issue.documentation)
+              );
+            }
+            return;
+          case 'loadSnippet':
+            if (issue) {
+              this._panel.webview.postMessage({
+                command: 'snippet',
+                key: message.key,
+                snippet: (await readSnippet(issue)) ?? null,
+              });
+            }
+            return;
+          case 'showRule':
+            if (issue) {
+              await this.showRuleDetails(issue);
+            }
+            return;
+          case 'showRuleByCode':
+            if (this._pane) {
+              await this._showPane({
+                kind: 'rule',
+                code: message.code,
+                packageRoot: this._pane.packageRoot,
+              });
+            }
+            return;
+          case 'showRules':
+            await this.showRules(message.packageRoot);
+            return;
+          case 'closePane':
+            this._pane = undefined;
+            return;
+          case 'setRuleEnabled':
+            if (this._pane?.kind === 'rules') {
+              await this._service.setLintRule(
+                this._pane.packageRoot,
+                message.code,
+                message.enabled
+              );
+            }
+            return;
+          case 'setRuleSeverity':
+            if (this._pane?.kind === 'rules') {
+              await this._service.setDiagnosticSeverity(
+                this._pane.packageRoot,
+                message.code,
+                message.severity || undefined
+              );
+            }
+            return;
+          case 'openOptionsFile': {
+            const file =
+              this._rulesOverview?.optionsFile ?? this._ruleDetails?.optionsFile;
+            if (file) {
+              await openLocation(file, 1, 1);
+            }
+            return;
+          }
+          case 'openComparedIssue': {
+            const list = COMPARISON_LISTS.find((key) => key === message.list);
+            const compared = list && this._comparison?.[list][message.index];
+            if (compared) {
+              try {
+                await openIssue(compared);
+              } catch {
+                vscode.window.showWarningMessage(
+                  `Dart Analysis: ${compared.packageName}/${compared.file} does not exist in the workspace.`
                 );
               }
             }
             return;
+          }
+          case 'exportComparison':
+            if (this._comparison) {
+              await this._service.exportRefComparison(this._comparison);
+            }
+            return;
+          case 'closeComparison':
+            this._comparison = undefined;
+            return;
+          case 'openRuleDocumentation':
+            if (this._ruleDetails) {
+              await vscode.env.openExternal(
+                vscode.Uri.parse(this._ruleDetails.documentation)
+              );
+            }
+            return;
+          case 'openRuleSource': {
+            const source = this._ruleDetails?.status?.source;
+            const file = source?.startsWith('package:')
+              ? this._ruleDetails?.status?.includedVia.slice(-1)[0]
+              : source;
+            if (file) {
+              await openLocation(file, 1, 1);
+            }
+            return;
+          }
         }
       },
       null,
       this._disposables
     );
 
-    // Initial refresh
-    this.refresh('flutter');
-  }
-
-  public async refresh(analyzer: 'dart' | 'flutter' = 'flutter') {
-    if (this._isAnalyzing) {
-      return;
-    }
-
-    this._isAnalyzing = true;
-    const analyzerName = analyzer === 'flutter' ? 'Flutter' : 'Dart';
-    this._updateStatus(`${analyzerName} Analyzing...`);
-
-    try {
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      if (!workspaceFolders || workspaceFolders.length === 0) {
-        this._updateStatus('No workspace folder found');
-        return;
-      }
+    this._service.onDidChange(
+      () => {
+        this._update();
+        this._postPane();
+      },
+      null,
+      this._disposables
+    );
+    this._service.onDidChangeStatus(
+      (status) => this._updateStatus(status),
+      null,
+      this._disposables
+    );
+    this._service.onDidChangeActiveIssue(
+      (issue) =>
+        this._panel.webview.postMessage({
+          command: 'activeIssue',
+          index: issue ? this._service.issues.indexOf(issue) : -1,
+        }),
+      null,
+      this._disposables
+    );
 
-      const workspaceRoot = workspaceFolders[0].uri.fsPath;
-      const analysisResults =
-        analyzer === 'flutter'
-          ? await this._runFlutterAnalyze(workspaceRoot)
-          : await this._runDartAnalyze(workspaceRoot);
-
-      this._analysisResults = analysisResults;
-      this._update();
-      this._updateStatus(
-        `Found ${analysisResults.length} issue${
-          analysisResults.length !== 1 ? 's' : ''
-        }`
-      );
-    } catch (error) {
-      const errorMessage =
-        error instanceof Error ? error.message : String(error);
-      this._updateStatus(`Error: ${errorMessage}`);
-      vscode.window.showErrorMessage(
-        `Dart Analysis Error: ${errorMessage}`
-      );
-    } finally {
-      this._isAnalyzing = false;
+    // Background runs may already have produced up to date results
+    this._updateStatus(this._service.status);
+    const state = this._service.state;
+    if (state !== 'upToDate' && state !== 'analyzing') {
+      this._service.refresh();
     }
   }
 
-  private _updateStatus(message: string) {
-    this._panel.title = `Dart Analysis - ${message}`;
+  /**
+   * Opens the side pane for the rule or diagnostic behind an issue's code.
+   */
+  public async showRuleDetails(issue: AnalysisIssue) {
+    await this._showPane({
+      kind: 'rule',
+      code: issue.code,
+      packageRoot: issue.packageRoot,
+      issue,
+    });
   }
 
-  private async _runDartAnalyze(
-    workspaceRoot: string
-  ): Promise<AnalysisIssue[]> {
-    try {
-      // Try to use dart analyze with JSON output
-      const { stdout, stderr } = await execAsync(
-        'dart analyze --format=json',
-        {
-          cwd: workspaceRoot,
-          maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-        }
-      );
-
-      if (stderr && !stdout) {
-        // Fallback to regular dart analyze
-        return await this._parseTextOutput(workspaceRoot, 'dart');
-      }
-
-      try {
-        const jsonOutput = JSON.parse(stdout);
-        return this._parseJsonOutput(jsonOutput, workspaceRoot);
-      } catch {
-        // If JSON parsing fails, fall back to text parsing
-        return await this._parseTextOutput(workspaceRoot, 'dart');
-      }
-      } catch (error) {
-      // If dart analyze fails, try parsing from diagnostics
-      return await this._getDiagnosticsFromEditor();
+  /**
+   * Opens the side pane with the rules and analyzer settings that apply to
+   * a package, by default the first one.
+   */
+  public async showRules(packageRoot?: string) {
+    const root =
+      packageRoot ??
+      (this._pane?.kind === 'rules' ? this._pane.packageRoot : undefined) ??
+      this._service.analysisRoots[0];
+    if (root) {
+      await this._showPane({ kind: 'rules', packageRoot: root });
     }
   }
 
-  private async _runFlutterAnalyze(
-    workspaceRoot: string
-  ): Promise<AnalysisIssue[]> {
-    try {
-      // Try to use flutter analyze with JSON output
-      const { stdout, stderr } = await execAsync(
-        'flutter analyze --format=json',
-        {
-          cwd: workspaceRoot,
-          maxBuffer: 10 * 1024 * 1024, // 10MB buffer
-        }
-      );
-
-      if (stderr && !stdout) {
-        // Fallback to regular flutter analyze
-        return await this._parseTextOutput(workspaceRoot, 'flutter');
-      }
-
-      try {
-        const jsonOutput = JSON.parse(stdout);
-        return this._parseJsonOutput(jsonOutput, workspaceRoot);
-      } catch {
-        // If JSON parsing fails, fall back to text parsing
-        return await this._parseTextOutput(workspaceRoot, 'flutter');
-      }
-      } catch (error) {
-      // If flutter analyze fails, try parsing from diagnostics
-      return await this._getDiagnosticsFromEditor();
-    }
+  /**
+   * Shows the issues introduced, resolved and unchanged between two refs
+   * side by side over the results.
+   */
+  public showRefComparison(comparison: RefComparison) {
+    this._comparison = comparison;
+    this._postComparison();
   }
 
-  private _parseJsonOutput(
-    jsonOutput: any,
-    workspaceRoot: string
-  ): AnalysisIssue[] {
-    const issues: AnalysisIssue[] = [];
-
-    if (jsonOutput.severity && jsonOutput.code) {
-      // Single issue format
-      issues.push(this._parseIssue(jsonOutput, workspaceRoot));
-    } else if (Array.isArray(jsonOutput)) {
-      // Array of issues
-      jsonOutput.forEach((issue) => {
-        issues.push(this._parseIssue(issue, workspaceRoot));
-      });
-    } else if (jsonOutput.diagnostics) {
-      // Diagnostics format
-      jsonOutput.diagnostics.forEach((issue: any) => {
-        issues.push(this._parseIssue(issue, workspaceRoot));
-      });
-    }
-
-    return issues;
+  private _postComparison() {
+    const comparison = this._comparison;
+    const toItem = (issue: AnalysisIssue) => ({
+      file: label(path.join(issue.packageRoot, issue.file)),
+      line: issue.line,
+      column: issue.column,
+      severity: issue.severity,
+      code: issue.code,
+      message: issue.message,
+    });
+    this._panel.webview.postMessage({
+      command: 'comparison',
+      comparison: comparison && {
+        base: comparison.base,
+        head: comparison.head,
+        introduced: comparison.introduced.map(toItem),
+        resolved: comparison.resolved.map(toItem),
+        unchanged: comparison.unchanged.map(toItem),
+      },
+    });
   }
 
-  private _parseIssue(issue: any, workspaceRoot: string): AnalysisIssue {
-    const severity = this._mapSeverity(issue.severity || issue.level);
-    const file = issue.location?.file || issue.file || '';
-    const relativeFile = file.startsWith(workspaceRoot)
-      ? path.relative(workspaceRoot, file)
-      : file;
-
-    return {
-      severity,
-      code: issue.code || issue.errorCode || 'unknown',
-      message: issue.message || issue.problemMessage || '',
-      file: relativeFile,
-      line: issue.location?.startLine || issue.line || 1,
-      column: issue.location?.startColumn || issue.column || 1,
-    };
+  private async _showPane(pane: SidePane) {
+    this._pane = pane;
+    await this._postPane();
   }
 
-  private _mapSeverity(
-    severity: string
-  ): 'error' | 'warning' | 'info' | 'hint' {
-    const lower = severity.toLowerCase();
-    if (lower === 'error' || lower === 'fatal') {
-      return 'error';
-    }
-    if (lower === 'warning' || lower === 'warn') {
-      return 'warning';
-    }
-    if (lower === 'info' || lower === 'information') {
-      return 'info';
+  private async _postPane() {
+    const pane = this._pane;
+    if (!pane) {
+      return;
     }
-    return 'hint';
-  }
-
-  private async _parseTextOutput(
-    workspaceRoot: string,
-    analyzer: 'dart' | 'flutter' = 'dart'
-  ): Promise<AnalysisIssue[]> {
-    try {
-      const command = analyzer === 'flutter' ? 'flutter analyze' : 'dart analyze';
-      const { stdout } = await execAsync(command, {
-        cwd: workspaceRoot,
-        maxBuffer: 10 * 1024 * 1024,
+    const issues = this._service.issues;
+
+    if (pane.kind === 'rule') {
+      const details = await getRuleDetails(
+        pane.code,
+        pane.packageRoot,
+        issues,
+        pane.issue
+      );
+      this._ruleDetails = details;
+      this._panel.webview.postMessage({
+        command: 'ruleDetails',
+        details: {
+          ...details,
+          optionsFile: details.optionsFile && label(details.optionsFile),
+          status: details.status && {
+            enabled: details.status.enabled,
+            source: label(details.status.source),
+            includedVia: details.status.includedVia.map(label),
+          },
+          severity: details.severity && {
+            severity: details.severity.severity,
+            source: label(details.severity.source),
+          },
+        },
       });
-
-      const issues: AnalysisIssue[] = [];
-      const lines = stdout.split('\n');
-
-      let currentIssue: Partial<AnalysisIssue> | null = null;
-
-      for (const line of lines) {
-        // Match patterns like: "error • message • file:line:column"
-        const errorMatch = line.match(
-          /^(error|warning|info|hint)\s+•\s+(.+?)\s+•\s+(.+?):(\d+):(\d+)/
-        );
-        if (errorMatch) {
-          if (currentIssue) {
-            issues.push(currentIssue as AnalysisIssue);
-          }
-          currentIssue = {
-            severity: this._mapSeverity(errorMatch[1]),
-            message: errorMatch[2].trim(),
-            file: path.relative(workspaceRoot, errorMatch[3]),
-            line: parseInt(errorMatch[4], 10),
-            column: parseInt(errorMatch[5], 10),
-            code: 'analyzer',
-          };
-        } else if (currentIssue && line.trim()) {
-          // Append to message if it's a continuation
-          currentIssue.message += ' ' + line.trim();
-        }
-      }
-
-      if (currentIssue) {
-        issues.push(currentIssue as AnalysisIssue);
-      }
-
-      return issues;
-    } catch {
-      return await this._getDiagnosticsFromEditor();
-    }
-  }
-
-  private async _getDiagnosticsFromEditor(): Promise<AnalysisIssue[]> {
-    const issues: AnalysisIssue[] = [];
-    const diagnostics = vscode.languages.getDiagnostics();
-
-    for (const [uri, diags] of diagnostics) {
-      if (uri.scheme !== 'file' || !uri.fsPath.endsWith('.dart')) {
-        continue;
-      }
-
-      const workspaceFolders = vscode.workspace.workspaceFolders;
-      const workspaceRoot =
-        workspaceFolders && workspaceFolders.length > 0
-          ? workspaceFolders[0].uri.fsPath
-          : '';
-
-      const relativeFile = workspaceRoot
-        ? path.relative(workspaceRoot, uri.fsPath)
-        : uri.fsPath;
-
-      for (const diagnostic of diags) {
-        const severity = this._mapDiagnosticSeverity(diagnostic.severity);
-        let code = 'unknown';
-        if (typeof diagnostic.code === 'string') {
-          code = diagnostic.code;
-        } else if (typeof diagnostic.code === 'number') {
-          code = String(diagnostic.code);
-        } else if (diagnostic.code && typeof diagnostic.code === 'object') {
-          code =
-            typeof diagnostic.code.value === 'string'
-              ? diagnostic.code.value
-              : String(diagnostic.code.value);
-        }
-        issues.push({
-          severity,
-          code,
-          message: diagnostic.message,
-          file: relativeFile,
-          line: diagnostic.range.start.line + 1,
-          column: diagnostic.range.start.character + 1,
-        });
-      }
+      return;
     }
 
-    return issues;
+    const overview = await getRulesOverview(pane.packageRoot, issues);
+    this._rulesOverview = overview;
+    this._panel.webview.postMessage({
+      command: 'rules',
+      packages: this._service.packages.map((pkg) => ({
+        root: pkg.root,
+        name: pkg.name,
+      })),
+      overview: {
+        ...overview,
+        optionsFile: overview.optionsFile && label(overview.optionsFile),
+        excludeSource: overview.excludeSource && label(overview.excludeSource),
+        rules: overview.rules.map((rule) => ({
+          ...rule,
+          source: rule.source && label(rule.source),
+          severitySource: rule.severitySource && label(rule.severitySource),
+        })),
+      },
+    });
   }
 
-  private _mapDiagnosticSeverity(
-    severity: vscode.DiagnosticSeverity
-  ): 'error' | 'warning' | 'info' | 'hint' {
-    switch (severity) {
-      case vscode.DiagnosticSeverity.Error:
-        return 'error';
-      case vscode.DiagnosticSeverity.Warning:
-        return 'warning';
-      case vscode.DiagnosticSeverity.Information:
-        return 'info';
-      case vscode.DiagnosticSeverity.Hint:
-        return 'hint';
-      default:
-        return 'info';
-    }
+  private _updateStatus(message: string) {
+    this._panel.title = message ? `Dart Analysis - ${message}` : 'Dart Analysis';
+    this._panel.webview.postMessage({
+      command: 'state',
+      state: this._service.state,
+      restoredAt: this._service.restoredAt,
+    });
   }
 
   public dispose() {
@@ -410,307 +438,74 @@ export class DartAnalysisPanel {
     }
   }
 
+  /**
+   * Posts the current results to the webview. The issue list is only sent
+   * when it changed; filter changes just send the new grouping.
+   */
   private _update() {
-    const webview = this._panel.webview;
-    this._panel.webview.html = this._getHtmlForWebview(webview);
+    const view = this._service.getView();
+    const activeIssue = this._service.activeIssue;
+    const sendIssues = this._sentResults !== view.issues;
+    this._sentResults = view.issues;
+    this._panel.webview.postMessage(
+      createUpdateMessage(
+        {
+          ...view,
+          filters: this._service.filters,
+          triageUser: this._service.triageUser,
+          active: activeIssue ? view.issues.indexOf(activeIssue) : -1,
+          source: this._service.source,
+          scope: {
+            paths: this._service.scope?.map(label),
+            lastRun: this._service.source?.paths?.map(label),
+          },
+          gitScopeError: this._service.gitScopeError,
+          history: this._service.history,
+        },
+        sendIssues
+      )
+    );
   }
 
   private _getHtmlForWebview(webview: vscode.Webview): string {
-    const issues = this._analysisResults;
-
-    // Group issues by severity
-    const errors = issues.filter((i) => i.severity === 'error');
-    const warnings = issues.filter((i) => i.severity === 'warning');
-    const infos = issues.filter((i) => i.severity === 'info');
-    const hints = issues.filter((i) => i.severity === 'hint');
-
-    // Group by file
-    const issuesByFile = new Map<string, AnalysisIssue[]>();
-    issues.forEach((issue) => {
-      const fileIssues = issuesByFile.get(issue.file) || [];
-      fileIssues.push(issue);
-      issuesByFile.set(issue.file, fileIssues);
-    });
-
-    const fileGroups = Array.from(issuesByFile.entries())
-      .map(([file, fileIssues]) => ({
-        file,
-        issues: fileIssues.sort((a, b) => a.line - b.line),
-      }))
-      .sort((a, b) => a.file.localeCompare(b.file));
-
-    return `<!DOCTYPE html>
-<html lang="en">
-<head>
-    <meta charset="UTF-8">
-    <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    <title>Dart Analysis</title>
-    <style>
-        * {
-            margin: 0;
-            padding: 0;
-            box-sizing: border-box;
-        }
-        body {
-            font-family: var(--vscode-font-family);
-            font-size: var(--vscode-font-size);
-            color: var(--vscode-foreground);
-            background-color: var(--vscode-editor-background);
-            padding: 10px;
-        }
-        .header {
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-            margin-bottom: 15px;
-            padding-bottom: 10px;
-            border-bottom: 1px solid var(--vscode-panel-border);
-        }
-        .summary {
-            display: flex;
-            gap: 15px;
-            flex-wrap: wrap;
-        }
-        .summary-item {
-            display: flex;
-            align-items: center;
-            gap: 5px;
-            padding: 5px 10px;
-            border-radius: 3px;
-            font-size: 12px;
-        }
-        .summary-item.error {
-            background-color: var(--vscode-inputValidation-errorBackground);
-            color: var(--vscode-inputValidation-errorForeground);
-        }
-        .summary-item.warning {
-            background-color: var(--vscode-inputValidation-warningBackground);
-            color: var(--vscode-inputValidation-warningForeground);
-        }
-        .summary-item.info {
-            background-color: var(--vscode-inputValidation-infoBackground);
-            color: var(--vscode-inputValidation-infoForeground);
-        }
-        .refresh-btn {
-            padding: 5px 10px;
-            background-color: var(--vscode-button-background);
-            color: var(--vscode-button-foreground);
-            border: none;
-            border-radius: 3px;
-            cursor: pointer;
-            font-size: 12px;
-        }
-        .refresh-btn:hover {
-            background-color: var(--vscode-button-hoverBackground);
-        }
-        .file-group {
-            margin-bottom: 20px;
-        }
-        .file-header {
-            font-weight: bold;
-            padding: 8px;
-            background-color: var(--vscode-list-hoverBackground);
-            cursor: pointer;
-            user-select: none;
-            display: flex;
-            justify-content: space-between;
-            align-items: center;
-        }
-        .file-header:hover {
-            background-color: var(--vscode-list-activeSelectionBackground);
-        }
-        .file-header::before {
-            content: '▶';
-            margin-right: 5px;
-            transition: transform 0.2s;
-        }
-        .file-header.collapsed::before {
-            transform: rotate(-90deg);
-        }
-        .file-issues {
-            display: block;
-        }
-        .file-issues.collapsed {
-            display: none;
-        }
-        .issue {
-            padding: 8px 8px 8px 30px;
-            border-left: 3px solid transparent;
-            cursor: pointer;
-            transition: background-color 0.2s;
-        }
-        .issue:hover {
-            background-color: var(--vscode-list-hoverBackground);
-        }
-        .issue.error {
-            border-left-color: var(--vscode-inputValidation-errorBorder);
-        }
-        .issue.warning {
-            border-left-color: var(--vscode-inputValidation-warningBorder);
-        }
-        .issue.info {
-            border-left-color: var(--vscode-inputValidation-infoBorder);
-        }
-        .issue.hint {
-            border-left-color: var(--vscode-inputValidation-infoBorder);
-            opacity: 0.8;
-        }
-        .issue-header {
-            display: flex;
-            align-items: center;
-            gap: 8px;
-            margin-bottom: 4px;
-        }
-        .issue-severity {
-            font-size: 11px;
-            font-weight: bold;
-            text-transform: uppercase;
-            padding: 2px 6px;
-            border-radius: 3px;
-        }
-        .issue-severity.error {
-            background-color: var(--vscode-inputValidation-errorBackground);
-            color: var(--vscode-inputValidation-errorForeground);
-        }
-        .issue-severity.warning {
-            background-color: var(--vscode-inputValidation-warningBackground);
-            color: var(--vscode-inputValidation-warningForeground);
-        }
-        .issue-severity.info {
-            background-color: var(--vscode-inputValidation-infoBackground);
-            color: var(--vscode-inputValidation-infoForeground);
-        }
-        .issue-code {
-            font-family: var(--vscode-editor-font-family);
-            font-size: 11px;
-            color: var(--vscode-descriptionForeground);
-        }
-        .issue-location {
-            font-size: 11px;
-            color: var(--vscode-descriptionForeground);
-            margin-left: auto;
-        }
-        .issue-message {
-            font-size: 12px;
-            color: var(--vscode-foreground);
-            line-height: 1.4;
-        }
-        .empty-state {
-            text-align: center;
-            padding: 40px 20px;
-            color: var(--vscode-descriptionForeground);
-        }
-        .empty-state-icon {
-            font-size: 48px;
-            margin-bottom: 10px;
-        }
-    </style>
-</head>
-<body>
-    <div class="header">
-        <div class="summary">
-            <div class="summary-item error">
-                <span>${errors.length}</span>
-                <span>Error${errors.length !== 1 ? 's' : ''}</span>
-            </div>
-            <div class="summary-item warning">
-                <span>${warnings.length}</span>
-                <span>Warning${warnings.length !== 1 ? 's' : ''}</span>
-            </div>
-            <div class="summary-item info">
-                <span>${infos.length + hints.length}</span>
-                <span>Info</span>
-            </div>
-        </div>
-        <button class="refresh-btn" onclick="refresh()">Flutter Analyze</button>
-    </div>
-    ${
-      issues.length === 0
-        ? `<div class="empty-state">
-            <div class="empty-state-icon">✓</div>
-            <div>No analysis issues found</div>
-        </div>`
-        : fileGroups
-            .map(
-              (group) => `
-        <div class="file-group">
-            <div class="file-header" onclick="toggleFile('${this._escapeHtml(
-              group.file
-            )}')">
-                <span>${this._escapeHtml(group.file)}</span>
-                <span>${group.issues.length} issue${
-                group.issues.length !== 1 ? 's' : ''
-              }</span>
-            </div>
-            <div class="file-issues" id="file-${this._escapeHtml(
-              group.file
-            )}">
-                ${group.issues
-                  .map(
-                    (issue) => `
-                <div class="issue ${issue.severity}" onclick="openFile('${this._escapeHtml(
-                      group.file
-                    )}', ${issue.line}, ${issue.column})">
-                    <div class="issue-header">
-                        <span class="issue-severity ${issue.severity}">${issue.severity}</span>
-                        <span class="issue-code">${this._escapeHtml(
-                          issue.code
-                        )}</span>
-                        <span class="issue-location">Line ${issue.line}:${issue.column}</span>
-                    </div>
-                    <div class="issue-message">${this._escapeHtml(
-                      issue.message
-                    )}</div>
-                </div>
-                `
-                  )
-                  .join('')}
-            </div>
-        </div>
-        `
-            )
-            .join('')
-    }
-    <script>
-        const vscode = acquireVsCodeApi();
-        
-        function refresh() {
-            vscode.postMessage({ command: 'refresh' });
-        }
-        
-        function toggleFile(file) {
-            const element = document.getElementById('file-' + file);
-            const header = element.previousElementSibling;
-            if (element) {
-                element.classList.toggle('collapsed');
-                header.classList.toggle('collapsed');
-            }
-        }
-        
-        function openFile(file, line, column) {
-            vscode.postMessage({
-                command: 'openFile',
-                file: file,
-                line: line,
-                column: column
-            });
-        }
-        
-        // Auto-refresh every 30 seconds
-        setInterval(refresh, 30000);
-    </script>
-</body>
-</html>`;
+    const styleUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'media', 'panel.css')
+    );
+    const scriptUri = webview.asWebviewUri(
+      vscode.Uri.joinPath(this._extensionUri, 'media', 'panel.js')
+    );
+    const nonce = getNonce();
+
+    return getPanelHtml(
+      [
+        `    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource}; script-src 'nonce-${nonce}';">`,
+        `    <link href="${styleUri}" rel="stylesheet">`,
+      ].join('\n'),
+      `    <script nonce="${nonce}" src="${scriptUri}"></script>`
+    );
   }
+}
+
+function getWebviewOptions(extensionUri: vscode.Uri): vscode.WebviewOptions {
+  return {
+    enableScripts: true,
+    localResourceRoots: [extensionUri],
+  };
+}
+
+// Paths are shown relative to the workspace, include URIs as they are
+function label(source: string): string {
+  return source.startsWith('package:')
+    ? source
+    : vscode.workspace.asRelativePath(source);
+}
 
-  private _escapeHtml(text: string): string {
-    const map: { [key: string]: string } = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;',
-    };
-    return text.replace(/[&<>"']/g, (m) => map[m]);
+function getNonce(): string {
+  const chars =
+    'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
   }
+  return nonce;
 }
@@ -0,0 +1,169 @@
+import { Dirent, promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisIssue, RawIssue } from './analysisIssue';
+
+export interface DartPackage {
+  name: string;
+  root: string;
+  /** Whether the pubspec depends on the Flutter SDK */
+  usesFlutter: boolean;
+}
+
+// Folders that contain generated or vendored pubspecs we never want to analyze
+const EXCLUDED_FOLDERS = new Set([
+  '.dart_tool',
+  'build',
+  '.pub-cache',
+  '.symlinks',
+  '.plugin_symlinks',
+  'node_modules',
+  '.git',
+]);
+
+/**
+ * Finds every Dart package (a folder with a pubspec.yaml) in the given
+ * folders and their subfolders, sorted by path.
+ */
+export async function findDartPackages(
+  folders: string[]
+): Promise<DartPackage[]> {
+  const packages: DartPackage[] = [];
+  const seen = new Set<string>();
+
+  const visit = async (dir: string) => {
+    let entries: Dirent[];
+    try {
+      entries = await fs.readdir(dir, { withFileTypes: true });
+    } catch {
+      return;
+    }
+    if (
+      !seen.has(dir) &&
+      entries.some((entry) => entry.isFile() && entry.name === 'pubspec.yaml')
+    ) {
+      seen.add(dir);
+      packages.push({ ...(await readPubspec(dir)), root: dir });
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !EXCLUDED_FOLDERS.has(entry.name)) {
+        await visit(path.join(dir, entry.name));
+      }
+    }
+  };
+  for (const folder of folders) {
+    await visit(folder);
+  }
+
+  return packages.sort((a, b) => a.root.localeCompare(b.root));
+}
+
+/**
+ * Returns the packages that are not nested inside another package. Running
+ * the analyzer in these folders covers every discovered package exactly once.
+ */
+export function getAnalysisRoots(packages: DartPackage[]): DartPackage[] {
+  return packages.filter(
+    (pkg) =>
+      !packages.some(
+        (other) => other !== pkg && isWithin(other.root, pkg.root)
+      )
+  );
+}
+
+/**
+ * Returns the innermost package that contains the given absolute path.
+ */
+export function findPackageForFile(
+  packages: DartPackage[],
+  filePath: string
+): DartPackage | undefined {
+  let match: DartPackage | undefined;
+  for (const pkg of packages) {
+    if (
+      isWithin(pkg.root, filePath) &&
+      (!match || pkg.root.length > match.root.length)
+    ) {
+      match = pkg;
+    }
+  }
+  return match;
+}
+
+/**
+ * Assigns each issue to the innermost package containing its file and makes
+ * the file path relative to that package. Nested packages can be reported
+ * by more than one analysis run, so duplicates are dropped.
+ */
+export function attributeToPackages(
+  rawIssues: RawIssue[],
+  packages: DartPackage[]
+): AnalysisIssue[] {
+  const issues: AnalysisIssue[] = [];
+  const seen = new Set<string>();
+
+  for (const raw of rawIssues) {
+    const key = `${raw.file}:${raw.line}:${raw.column}:${raw.code}:${raw.message}`;
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+
+    const pkg = findPackageForFile(packages, raw.file);
+    const packageRoot = pkg ? pkg.root : path.dirname(raw.file);
+    issues.push({
+      ...raw,
+      file: path.relative(packageRoot, raw.file),
+      packageName: pkg ? pkg.name : path.basename(packageRoot),
+      packageRoot,
+    });
+  }
+
+  return issues;
+}
+
+/** Whether the issue is in one of the files or folders */
+export function isInPaths(issue: AnalysisIssue, paths: string[]): boolean {
+  const file = path.join(issue.packageRoot, issue.file);
+  return paths.some((target) => {
+    const relative = path.relative(target, file);
+    return !relative.startsWith('..') && !path.isAbsolute(relative);
+  });
+}
+
+/**
+ * Replaces the issues in `paths` with `scoped`, the issues of a run limited
+ * to them, and keeps the others. Files in `paths` that no longer have issues
+ * lose theirs.
+ */
+export function mergeScopedIssues(
+  previous: AnalysisIssue[],
+  scoped: AnalysisIssue[],
+  paths: string[]
+): AnalysisIssue[] {
+  return [...previous.filter((issue) => !isInPaths(issue, paths)), ...scoped];
+}
+
+function isWithin(parent: string, child: string): boolean {
+  const relative = path.relative(parent, child);
+  return (
+    relative !== '' &&
+    !relative.startsWith('..') &&
+    !path.isAbsolute(relative)
+  );
+}
+
+async function readPubspec(
+  root: string
+): Promise<{ name: string; usesFlutter: boolean }> {
+  let content = '';
+  try {
+    content = await fs.readFile(path.join(root, 'pubspec.yaml'), 'utf8');
+  } catch {
+    // Fall back to the folder name below
+  }
+  const match = content.match(/^name:\s*['"]?([\w.-]+)['"]?\s*$/m);
+  return {
+    name: match ? match[1] : path.basename(root),
+    usesFlutter: /^\s+sdk:\s*['"]?flutter['"]?\s*$/m.test(content),
+  };
+}
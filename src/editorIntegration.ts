@@ -0,0 +1,319 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { AnalysisService } from './analysisService';
+import { affectsConfig, getConfig } from './config';
+import {
+  PUBLISHED_DIAGNOSTIC_SOURCE,
+  getDiagnosticCode,
+} from './providers/editorDiagnosticsProvider';
+
+const DIAGNOSTIC_SEVERITIES: Record<IssueSeverity, vscode.DiagnosticSeverity> =
+  {
+    error: vscode.DiagnosticSeverity.Error,
+    warning: vscode.DiagnosticSeverity.Warning,
+    info: vscode.DiagnosticSeverity.Information,
+    hint: vscode.DiagnosticSeverity.Hint,
+  };
+
+// Gutter markers, hints share the info marker
+type MarkerKind = 'error' | 'warning' | 'info';
+
+const OVERVIEW_RULER_COLORS: Record<MarkerKind, string> = {
+  error: 'editorOverviewRuler.errorForeground',
+  warning: 'editorOverviewRuler.warningForeground',
+  info: 'editorOverviewRuler.infoForeground',
+};
+
+/**
+ * Shows the analysis results in the editors: optionally as diagnostics in the
+ * Problems view, and as a CodeLens summary at the top of each file with
+ * gutter markers on the lines that have issues.
+ *
+ * Issues that the Dart extension already reports as diagnostics are not
+ * published again, so that enabling both does not double every squiggle.
+ */
+export class EditorIntegration
+  implements vscode.CodeLensProvider, vscode.Disposable
+{
+  private readonly _service: AnalysisService;
+  private readonly _diagnostics: vscode.DiagnosticCollection;
+  private readonly _decorations: Record<
+    MarkerKind,
+    vscode.TextEditorDecorationType
+  >;
+  private _disposables: vscode.Disposable[] = [];
+  // Absolute file path -> issues in it, rebuilt when the results change
+  private _issuesByFile: Map<string, AnalysisIssue[]> | undefined;
+  // File URI -> what was last published for it, to skip no-op updates
+  private _published = new Map<string, string>();
+
+  private readonly _onDidChangeCodeLenses = new vscode.EventEmitter<void>();
+  public readonly onDidChangeCodeLenses = this._onDidChangeCodeLenses.event;
+
+  constructor(context: vscode.ExtensionContext, service: AnalysisService) {
+    this._service = service;
+    this._diagnostics = vscode.languages.createDiagnosticCollection(
+      'dart-analysis-panel'
+    );
+    const marker = (kind: MarkerKind) =>
+      vscode.window.createTextEditorDecorationType({
+        gutterIconPath: vscode.Uri.joinPath(
+          context.extensionUri,
+          'media',
+          `gutter-${kind}.svg`
+        ),
+        gutterIconSize: 'contain',
+        overviewRulerColor: new vscode.ThemeColor(
+          OVERVIEW_RULER_COLORS[kind]
+        ),
+        overviewRulerLane: vscode.OverviewRulerLane.Left,
+      });
+    this._decorations = {
+      error: marker('error'),
+      warning: marker('warning'),
+      info: marker('info'),
+    };
+    this._disposables.push(
+      this._diagnostics,
+      this._onDidChangeCodeLenses,
+      ...Object.values(this._decorations),
+      vscode.languages.registerCodeLensProvider(
+        { language: 'dart', scheme: 'file' },
+        this
+      )
+    );
+
+    service.onDidChange(
+      () => {
+        this._issuesByFile = undefined;
+        this._update();
+      },
+      null,
+      this._disposables
+    );
+    vscode.workspace.onDidChangeConfiguration(
+      (event) => {
+        if (affectsConfig(event, 'publishDiagnostics', 'editorSummary')) {
+          this._update();
+        }
+      },
+      null,
+      this._disposables
+    );
+    // The Dart extension may start or stop reporting an issue at any time
+    vscode.languages.onDidChangeDiagnostics(
+      (event) => {
+        if (getConfig().publishDiagnostics) {
+          event.uris.forEach((uri) => this._publish(uri));
+        }
+      },
+      null,
+      this._disposables
+    );
+    vscode.window.onDidChangeVisibleTextEditors(
+      (editors) => editors.forEach((editor) => this._decorate(editor)),
+      null,
+      this._disposables
+    );
+
+    this._update();
+  }
+
+  public provideCodeLenses(document: vscode.TextDocument): vscode.CodeLens[] {
+    if (!getConfig().editorSummary) {
+      return [];
+    }
+    const issues = this._getIssuesByFile().get(document.uri.fsPath);
+    if (!issues) {
+      return [];
+    }
+
+    const counts = countSeverities(issues);
+    const parts = [
+      counts.error ? `$(error) ${counts.error}` : '',
+      counts.warning ? `$(warning) ${counts.warning}` : '',
+      counts.info ? `$(info) ${counts.info}` : '',
+    ].filter(Boolean);
+
+    const codes = new Map<string, number>();
+    issues.forEach((issue) =>
+      codes.set(issue.code, (codes.get(issue.code) ?? 0) + 1)
+    );
+    const tooltip = Array.from(codes)
+      .sort((a, b) => b[1] - a[1])
+      .map(([code, count]) => `${code}: ${count}`)
+      .join('\n');
+
+    return [
+      new vscode.CodeLens(new vscode.Range(0, 0, 0, 0), {
+        title: `Dart Analysis: ${parts.join(' ')}`,
+        tooltip,
+        command: 'dartAnalysisPanel.show',
+      }),
+    ];
+  }
+
+  private _update() {
+    this._updateDiagnostics();
+    vscode.window.visibleTextEditors.forEach((editor) =>
+      this._decorate(editor)
+    );
+    this._onDidChangeCodeLenses.fire();
+  }
+
+  private _updateDiagnostics() {
+    if (!getConfig().publishDiagnostics) {
+      this._diagnostics.clear();
+      this._published.clear();
+      return;
+    }
+
+    const files = new Set(this._getIssuesByFile().keys());
+    // Clear the files that no longer have issues
+    this._diagnostics.forEach((uri) => {
+      if (!files.has(uri.fsPath)) {
+        this._diagnostics.delete(uri);
+        this._published.delete(uri.toString());
+      }
+    });
+    files.forEach((file) => this._publish(vscode.Uri.file(file)));
+  }
+
+  /**
+   * Publishes the issues of one file, leaving out those that another source,
+   * usually the Dart extension, already reports at the same place.
+   */
+  private _publish(uri: vscode.Uri) {
+    if (uri.scheme !== 'file') {
+      return;
+    }
+    const issues = this._getIssuesByFile().get(uri.fsPath) ?? [];
+    const reported = new Set(
+      vscode.languages
+        .getDiagnostics(uri)
+        .filter(
+          (diagnostic) => diagnostic.source !== PUBLISHED_DIAGNOSTIC_SOURCE
+        )
+        .map(
+          (diagnostic) =>
+            `${getDiagnosticCode(diagnostic)}:${diagnostic.range.start.line}`
+        )
+    );
+    const diagnostics = issues
+      .filter((issue) => !reported.has(`${issue.code}:${issue.line - 1}`))
+      .map(toDiagnostic);
+
+    // Publishing fires onDidChangeDiagnostics again, so stop once stable
+    const signature = diagnostics
+      .map((d) => `${getDiagnosticCode(d)}:${d.range.start.line}`)
+      .join(',');
+    if (this._published.get(uri.toString()) === signature) {
+      return;
+    }
+    this._published.set(uri.toString(), signature);
+    this._diagnostics.set(uri, diagnostics);
+  }
+
+  private _decorate(editor: vscode.TextEditor) {
+    const issues = getConfig().editorSummary
+      ? (this._getIssuesByFile().get(editor.document.uri.fsPath) ?? [])
+      : [];
+    // One marker per line, for its most severe issue
+    const lines = new Map<number, MarkerKind>();
+    for (const issue of issues) {
+      const kind: MarkerKind =
+        issue.severity === 'hint' ? 'info' : issue.severity;
+      const current = lines.get(issue.line - 1);
+      if (!current || MARKER_ORDER[kind] < MARKER_ORDER[current]) {
+        lines.set(issue.line - 1, kind);
+      }
+    }
+    for (const kind of Object.keys(this._decorations) as MarkerKind[]) {
+      const ranges = Array.from(lines)
+        .filter(([, lineKind]) => lineKind === kind)
+        .map(([line]) => new vscode.Range(line, 0, line, 0));
+      editor.setDecorations(this._decorations[kind], ranges);
+    }
+  }
+
+  private _getIssuesByFile(): Map<string, AnalysisIssue[]> {
+    if (!this._issuesByFile) {
+      this._issuesByFile = new Map();
+      for (const issue of this._service.issues) {
+        const file = path.join(issue.packageRoot, issue.file);
+        const issues = this._issuesByFile.get(file);
+        if (issues) {
+          issues.push(issue);
+        } else {
+          this._issuesByFile.set(file, [issue]);
+        }
+      }
+    }
+    return this._issuesByFile;
+  }
+
+  public dispose() {
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+}
+
+const MARKER_ORDER: Record<MarkerKind, number> = {
+  error: 0,
+  warning: 1,
+  info: 2,
+};
+
+function countSeverities(issues: AnalysisIssue[]): Record<MarkerKind, number> {
+  const counts: Record<MarkerKind, number> = { error: 0, warning: 0, info: 0 };
+  for (const issue of issues) {
+    counts[issue.severity === 'hint' ? 'info' : issue.severity]++;
+  }
+  return counts;
+}
+
+function toDiagnostic(issue: AnalysisIssue): vscode.Diagnostic {
+  const start = new vscode.Position(
+    issue.line - 1,
+    Math.max(0, issue.column - 1)
+  );
+  // Without an end position, mark the first character
+  const end =
+    issue.endLine !== undefined && issue.endColumn !== undefined
+      ? new vscode.Position(
+          issue.endLine - 1,
+          Math.max(0, issue.endColumn - 1)
+        )
+      : start.translate(0, 1);
+
+  const diagnostic = new vscode.Diagnostic(
+    new vscode.Range(start, end),
+    issue.message,
+    DIAGNOSTIC_SEVERITIES[issue.severity]
+  );
+  diagnostic.source = PUBLISHED_DIAGNOSTIC_SOURCE;
+  diagnostic.code = issue.documentation
+    ? { value: issue.code, target: vscode.Uri.parse(issue.documentation) }
+    : issue.code;
+  if (issue.contextMessages?.length) {
+    diagnostic.relatedInformation = issue.contextMessages.map(
+      (context) =>
+        new vscode.DiagnosticRelatedInformation(
+          new vscode.Location(
+            vscode.Uri.file(context.file),
+            new vscode.Position(
+              context.line - 1,
+              Math.max(0, context.column - 1)
+            )
+          ),
+          context.message
+        )
+    );
+  }
+  return diagnostic;
+}
@@ -0,0 +1,419 @@
+import * as path from 'path';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { RefComparison } from './refComparison';
+
+export type ExportFormat = 'sarif' | 'junit' | 'checkstyle' | 'csv' | 'markdown';
+
+export interface ExportOptions {
+  /** Directory that exported file paths are made relative to */
+  rootPath: string;
+  /** Version of the extension, recorded as the tool version where supported */
+  toolVersion?: string;
+}
+
+export interface Exporter {
+  label: string;
+  description: string;
+  extension: string;
+  write(issues: AnalysisIssue[], options: ExportOptions): string;
+}
+
+export const exporters: Record<ExportFormat, Exporter> = {
+  sarif: {
+    label: 'SARIF',
+    description: 'SARIF 2.1.0, for code scanning and review bots',
+    extension: 'sarif',
+    write: writeSarif,
+  },
+  junit: {
+    label: 'JUnit XML',
+    description: 'One test case per issue, grouped by file',
+    extension: 'xml',
+    write: writeJUnit,
+  },
+  checkstyle: {
+    label: 'Checkstyle XML',
+    description: 'Checkstyle 4.3 report',
+    extension: 'xml',
+    write: writeCheckstyle,
+  },
+  csv: {
+    label: 'CSV',
+    description: 'One row per issue',
+    extension: 'csv',
+    write: writeCsv,
+  },
+  markdown: {
+    label: 'Markdown',
+    description: 'Summary with counts per severity and rule',
+    extension: 'md',
+    write: writeMarkdown,
+  },
+};
+
+const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+function writeSarif(issues: AnalysisIssue[], options: ExportOptions): string {
+  const ruleIds = [...new Set(issues.map((issue) => issue.code))].sort();
+  const ruleIndex = new Map(ruleIds.map((id, index) => [id, index]));
+  const helpUris = new Map<string, string>();
+  for (const issue of issues) {
+    if (issue.documentation && !helpUris.has(issue.code)) {
+      helpUris.set(issue.code, issue.documentation);
+    }
+  }
+
+  const region = (issue: AnalysisIssue) => ({
+    startLine: issue.line,
+    startColumn: issue.column,
+    ...(issue.endLine !== undefined && { endLine: issue.endLine }),
+    ...(issue.endColumn !== undefined && { endColumn: issue.endColumn }),
+  });
+
+  const sarif = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'dart analyze',
+            informationUri: 'https://dart.dev/tools/dart-analyze',
+            ...(options.toolVersion && { version: options.toolVersion }),
+            rules: ruleIds.map((id) => ({
+              id,
+              ...(helpUris.has(id) && { helpUri: helpUris.get(id) }),
+            })),
+          },
+        },
+        originalUriBaseIds: {
+          SRCROOT: { uri: pathToFileUri(options.rootPath) + '/' },
+        },
+        results: issues.map((issue) => ({
+          ruleId: issue.code,
+          ruleIndex: ruleIndex.get(issue.code),
+          level: sarifLevel(issue.severity),
+          message: {
+            text: issue.correctionMessage
+              ? `${issue.message} ${issue.correctionMessage}`
+              : issue.message,
+          },
+          locations: [
+            {
+              physicalLocation: {
+                artifactLocation: {
+                  uri: encodeURI(relativePath(issue, options)),
+                  uriBaseId: 'SRCROOT',
+                },
+                region: region(issue),
+              },
+            },
+          ],
+          ...(issue.contextMessages?.length && {
+            relatedLocations: issue.contextMessages.map((context, id) => ({
+              id,
+              message: { text: context.message },
+              physicalLocation: {
+                artifactLocation: { uri: pathToFileUri(context.file) },
+                region: { startLine: context.line, startColumn: context.column },
+              },
+            })),
+          }),
+          ...(issue.fingerprint && {
+            partialFingerprints: { 'dartAnalysisPanel/v1': issue.fingerprint },
+          }),
+        })),
+      },
+    ],
+  };
+
+  return JSON.stringify(sarif, null, 2) + '\n';
+}
+
+function sarifLevel(severity: IssueSeverity): string {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    default:
+      return 'note';
+  }
+}
+
+function writeJUnit(issues: AnalysisIssue[], options: ExportOptions): string {
+  const byFile = groupByFile(issues, options);
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="dart analyze" tests="${issues.length}" failures="${issues.length}">`,
+  ];
+
+  byFile.forEach((fileIssues, file) => {
+    lines.push(
+      `  <testsuite name="${escapeXml(file)}" tests="${fileIssues.length}" failures="${fileIssues.length}" errors="0">`
+    );
+    for (const issue of fileIssues) {
+      const location = `${file}:${issue.line}:${issue.column}`;
+      lines.push(
+        `    <testcase name="${escapeXml(`${issue.code} at ${issue.line}:${issue.column}`)}" classname="${escapeXml(file)}">`,
+        `      <failure message="${escapeXml(issue.message)}" type="${issue.severity}">${escapeXml(
+          `${issue.severity}: ${issue.message} (${issue.code}) at ${location}`
+        )}</failure>`,
+        '    </testcase>'
+      );
+    }
+    lines.push('  </testsuite>');
+  });
+
+  lines.push('</testsuites>');
+  return lines.join('\n') + '\n';
+}
+
+function writeCheckstyle(
+  issues: AnalysisIssue[],
+  options: ExportOptions
+): string {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<checkstyle version="4.3">',
+  ];
+
+  groupByFile(issues, options).forEach((fileIssues, file) => {
+    lines.push(`  <file name="${escapeXml(file)}">`);
+    for (const issue of fileIssues) {
+      // Checkstyle has no hint severity
+      const severity = issue.severity === 'hint' ? 'info' : issue.severity;
+      lines.push(
+        `    <error line="${issue.line}" column="${issue.column}" severity="${severity}" message="${escapeXml(
+          issue.message
+        )}" source="dart.${escapeXml(issue.code)}"/>`
+      );
+    }
+    lines.push('  </file>');
+  });
+
+  lines.push('</checkstyle>');
+  return lines.join('\n') + '\n';
+}
+
+function writeCsv(issues: AnalysisIssue[], options: ExportOptions): string {
+  const header = [
+    'Severity',
+    'Code',
+    'Message',
+    'Correction',
+    'Package',
+    'File',
+    'Line',
+    'Column',
+  ];
+  const rows = sortIssues(issues, options).map((issue) => [
+    issue.severity,
+    issue.code,
+    issue.message,
+    issue.correctionMessage ?? '',
+    issue.packageName,
+    relativePath(issue, options),
+    String(issue.line),
+    String(issue.column),
+  ]);
+
+  return (
+    [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') +
+    '\r\n'
+  );
+}
+
+function writeMarkdown(
+  issues: AnalysisIssue[],
+  options: ExportOptions
+): string {
+  const lines = ['# Dart Analysis Results', ''];
+
+  if (issues.length === 0) {
+    lines.push('No issues found.');
+    return lines.join('\n') + '\n';
+  }
+
+  const byFile = groupByFile(issues, options);
+  const counts = SEVERITIES.map(
+    (severity) => issues.filter((issue) => issue.severity === severity).length
+  );
+  lines.push(
+    `**${issues.length}** issue${issues.length !== 1 ? 's' : ''} in ` +
+      `**${byFile.size}** file${byFile.size !== 1 ? 's' : ''}.`,
+    '',
+    '| Severity | Count |',
+    '| --- | ---: |',
+    ...SEVERITIES.map((severity, i) => `| ${severity} | ${counts[i]} |`),
+    ''
+  );
+
+  const byCode = new Map<string, AnalysisIssue[]>();
+  for (const issue of issues) {
+    const codeIssues = byCode.get(issue.code) ?? [];
+    codeIssues.push(issue);
+    byCode.set(issue.code, codeIssues);
+  }
+  lines.push('## Rules', '', '| Rule | Severity | Count |', '| --- | --- | ---: |');
+  [...byCode.entries()]
+    .sort((a, b) => b[1].length - a[1].length || a[0].localeCompare(b[0]))
+    .forEach(([code, codeIssues]) => {
+      const rule = codeIssues[0].documentation
+        ? `[\`${code}\`](${codeIssues[0].documentation})`
+        : `\`${code}\``;
+      lines.push(
+        `| ${rule} | ${codeIssues[0].severity} | ${codeIssues.length} |`
+      );
+    });
+  lines.push('');
+
+  lines.push('## Issues', '');
+  byFile.forEach((fileIssues, file) => {
+    lines.push(`### \`${file}\``, '');
+    for (const issue of fileIssues) {
+      lines.push(
+        `- **${issue.severity}** \`${issue.code}\` line ${issue.line}: ${escapeMarkdown(
+          issue.message
+        )}`
+      );
+    }
+    lines.push('');
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Writes a comparison of two refs as Markdown, e.g. for the description of
+ * the pull request that upgrades a dependency: counts, the change per rule
+ * and every introduced and resolved issue by file.
+ */
+export function writeComparisonMarkdown(
+  comparison: RefComparison,
+  options: ExportOptions
+): string {
+  const { base, head, introduced, resolved, unchanged } = comparison;
+  const lines = [
+    `# Dart Analysis: \`${base.ref}\` → \`${head.ref}\``,
+    '',
+    `Compared \`${base.ref}\` (\`${base.commit.slice(0, 7)}\`) with ` +
+      `\`${head.ref}\` (\`${head.commit.slice(0, 7)}\`).`,
+    '',
+    '| | Count |',
+    '| --- | ---: |',
+    `| Introduced | ${introduced.length} |`,
+    `| Resolved | ${resolved.length} |`,
+    `| Unchanged | ${unchanged.length} |`,
+    '',
+  ];
+
+  const byCode = new Map<string, { introduced: number; resolved: number }>();
+  const count = (issues: AnalysisIssue[], key: 'introduced' | 'resolved') => {
+    for (const issue of issues) {
+      const counts = byCode.get(issue.code) ?? { introduced: 0, resolved: 0 };
+      counts[key]++;
+      byCode.set(issue.code, counts);
+    }
+  };
+  count(introduced, 'introduced');
+  count(resolved, 'resolved');
+  if (byCode.size > 0) {
+    lines.push(
+      '## Rules',
+      '',
+      '| Rule | Introduced | Resolved |',
+      '| --- | ---: | ---: |'
+    );
+    [...byCode.entries()]
+      .sort(
+        (a, b) =>
+          b[1].introduced - a[1].introduced ||
+          b[1].resolved - a[1].resolved ||
+          a[0].localeCompare(b[0])
+      )
+      .forEach(([code, counts]) =>
+        lines.push(`| \`${code}\` | ${counts.introduced} | ${counts.resolved} |`)
+      );
+    lines.push('');
+  }
+
+  for (const [title, issues] of [
+    ['Introduced', introduced],
+    ['Resolved', resolved],
+  ] as const) {
+    lines.push(`## ${title}`, '');
+    if (issues.length === 0) {
+      lines.push('None.', '');
+      continue;
+    }
+    groupByFile(issues, options).forEach((fileIssues, file) => {
+      lines.push(`### \`${file}\``, '');
+      for (const issue of fileIssues) {
+        lines.push(
+          `- **${issue.severity}** \`${issue.code}\` line ${issue.line}: ${escapeMarkdown(
+            issue.message
+          )}`
+        );
+      }
+      lines.push('');
+    });
+  }
+
+  return lines.join('\n');
+}
+
+function relativePath(issue: AnalysisIssue, options: ExportOptions): string {
+  return path
+    .relative(options.rootPath, path.join(issue.packageRoot, issue.file))
+    .replace(/\\/g, '/');
+}
+
+function sortIssues(
+  issues: AnalysisIssue[],
+  options: ExportOptions
+): AnalysisIssue[] {
+  return [...issues].sort(
+    (a, b) =>
+      relativePath(a, options).localeCompare(relativePath(b, options)) ||
+      a.line - b.line ||
+      a.column - b.column
+  );
+}
+
+function groupByFile(
+  issues: AnalysisIssue[],
+  options: ExportOptions
+): Map<string, AnalysisIssue[]> {
+  const groups = new Map<string, AnalysisIssue[]>();
+  for (const issue of sortIssues(issues, options)) {
+    const file = relativePath(issue, options);
+    const fileIssues = groups.get(file) ?? [];
+    fileIssues.push(issue);
+    groups.set(file, fileIssues);
+  }
+  return groups;
+}
+
+function pathToFileUri(file: string): string {
+  const posix = file.replace(/\\/g, '/');
+  return encodeURI(`file://${posix.startsWith('/') ? '' : '/'}${posix}`);
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;')
+    .replace(/\r?\n/g, '&#10;');
+}
+
+function escapeCsv(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeMarkdown(text: string): string {
+  return text.replace(/[\\`*_[\]<>|]/g, '\\$&').replace(/\r?\n/g, ' ');
+}
@@ -1,38 +1,291 @@
 import * as vscode from 'vscode';
+import { AnalysisIssue } from './analysisIssue';
+import { affectsAnalysis } from './analysisOptions';
+import { AnalysisService } from './analysisService';
+import { affectsConfig, getConfig } from './config';
 import { DartAnalysisPanel } from './dartAnalysisPanel';
+import { EditorIntegration } from './editorIntegration';
+import { goToIssue } from './issueNavigator';
+import { IssueTreeNode, IssuesTreeView } from './issuesTreeView';
+import { openIssue } from './navigation';
+import { AnalysisStatusBar } from './statusBar';
 
 export function activate(context: vscode.ExtensionContext) {
   console.log('Dart Analysis Panel extension is now active');
 
+  // Results are shared by the webview panel and the issues tree
+  const service = new AnalysisService(context);
+  const issuesView = new IssuesTreeView(service);
+  const statusBar = new AnalysisStatusBar(service);
+  const editorIntegration = new EditorIntegration(context, service);
+  context.subscriptions.push(
+    service,
+    issuesView,
+    statusBar,
+    editorIntegration
+  );
+
+  // Whether any view is showing results
+  const isShown = () =>
+    DartAnalysisPanel.currentPanel !== undefined || issuesView.visible;
+  // Whether a view with the results is on screen right now
+  const isVisible = () =>
+    DartAnalysisPanel.currentPanel?.visible === true || issuesView.visible;
+  // Whether results are shown anywhere, i.e. worth refreshing on save
+  const isWatched = () => {
+    const config = getConfig();
+    return isShown() || config.showStatusBar || config.publishDiagnostics;
+  };
+  // Background work is wasted in workspaces without Dart packages
+  const hasPackages = async () => (await service.findPackages()).length > 0;
+
   // Register commands
   const showCommand = vscode.commands.registerCommand(
     'dartAnalysisPanel.show',
     () => {
-      DartAnalysisPanel.createOrShow(context.extensionUri);
+      DartAnalysisPanel.createOrShow(context, service);
     }
   );
 
   const refreshCommand = vscode.commands.registerCommand(
     'dartAnalysisPanel.refresh',
     () => {
-      if (DartAnalysisPanel.currentPanel) {
-        DartAnalysisPanel.currentPanel.refresh('flutter');
+      if (isShown()) {
+        service.refresh({ interactive: true });
+      } else {
+        DartAnalysisPanel.createOrShow(context, service);
+      }
+    }
+  );
+
+  // Analyzes some files or folders, merging their issues into the results
+  const analyzePaths = (uris: vscode.Uri[]) => {
+    const paths = uris
+      .filter((uri) => uri.scheme === 'file')
+      .map((uri) => uri.fsPath);
+    if (paths.length === 0) {
+      return;
+    }
+    service.refresh({ paths, interactive: true });
+    if (!isShown()) {
+      DartAnalysisPanel.createOrShow(context, service);
+    }
+  };
+
+  // Explorer menus pass the clicked item and every selected item
+  const analyzeFileCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.analyzeFile',
+    (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+      const document = vscode.window.activeTextEditor?.document;
+      const target = uri ?? document?.uri;
+      analyzePaths(uris?.length ? uris : target ? [target] : []);
+    }
+  );
+
+  const analyzeFolderCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.analyzeFolder',
+    async (uri?: vscode.Uri, uris?: vscode.Uri[]) => {
+      const targets = uris?.length ? uris : uri ? [uri] : undefined;
+      if (targets) {
+        analyzePaths(targets);
+        return;
+      }
+      const picked = await vscode.window.showOpenDialog({
+        canSelectFiles: false,
+        canSelectFolders: true,
+        canSelectMany: true,
+        defaultUri: vscode.workspace.workspaceFolders?.[0]?.uri,
+        openLabel: 'Analyze',
+      });
+      analyzePaths(picked ?? []);
+    }
+  );
+
+  const createBaselineCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.createBaseline',
+    async () => {
+      if (service.hasResults) {
+        await service.createBaseline();
+      } else {
+        DartAnalysisPanel.createOrShow(context, service);
+        vscode.window.showInformationMessage(
+          'Dart Analysis: Run "Create Baseline" again once the analysis has finished.'
+        );
+      }
+    }
+  );
+
+  const exportResultsCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.exportResults',
+    async () => {
+      if (service.hasResults) {
+        await service.exportResults();
       } else {
-        DartAnalysisPanel.createOrShow(context.extensionUri);
+        DartAnalysisPanel.createOrShow(context, service);
+        vscode.window.showInformationMessage(
+          'Dart Analysis: Run "Export Analysis Results" again once the analysis has finished.'
+        );
+      }
+    }
+  );
+
+  const compareRefsCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.compareRefs',
+    async () => {
+      const comparison = await service.compareRefs();
+      if (comparison) {
+        DartAnalysisPanel.createOrShow(context, service)?.showRefComparison(
+          comparison
+        );
+      }
+    }
+  );
+
+  const clearHistoryCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.clearHistory',
+    () => service.clearHistory()
+  );
+
+  const cancelCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.cancel',
+    () => service.cancel()
+  );
+
+  const nextIssueCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.nextIssue',
+    () => goToIssue(service, 1)
+  );
+
+  const previousIssueCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.previousIssue',
+    () => goToIssue(service, -1)
+  );
+
+  // Commands used by the issues tree
+  const openIssueCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.openIssue',
+    (issue: AnalysisIssue) => {
+      service.setActiveIssue(issue);
+      return openIssue(issue);
+    }
+  );
+
+  const issueActionsCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.issueActions',
+    async (node: IssueTreeNode) => {
+      if (node?.kind === 'issue') {
+        await service.showIssueActions(node.issue);
+      }
+    }
+  );
+
+  const openDocumentationCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.openDocumentation',
+    async (node: IssueTreeNode) => {
+      if (node?.kind === 'issue' && node.issue.documentation) {
+        await vscode.env.openExternal(
+          vscode.Uri.parse(node.issue.documentation)
+        );
+      }
+    }
+  );
+
+  const showRuleDetailsCommand = vscode.commands.registerCommand(
+    'dartAnalysisPanel.showRuleDetails',
+    async (node: IssueTreeNode) => {
+      if (node?.kind === 'issue') {
+        await DartAnalysisPanel.createOrShow(
+          context,
+          service
+        )?.showRuleDetails(node.issue);
       }
     }
   );
 
-  context.subscriptions.push(showCommand, refreshCommand);
+  context.subscriptions.push(
+    showCommand,
+    refreshCommand,
+    cancelCommand,
+    analyzeFileCommand,
+    analyzeFolderCommand,
+    createBaselineCommand,
+    exportResultsCommand,
+    compareRefsCommand,
+    clearHistoryCommand,
+    nextIssueCommand,
+    previousIssueCommand,
+    openIssueCommand,
+    issueActionsCommand,
+    openDocumentationCommand,
+    showRuleDetailsCommand
+  );
+
+  // Bring the panel back after a window reload; it refreshes by itself
+  context.subscriptions.push(
+    vscode.window.registerWebviewPanelSerializer(DartAnalysisPanel.viewType, {
+      async deserializeWebviewPanel(panel: vscode.WebviewPanel) {
+        DartAnalysisPanel.revive(panel, context, service);
+      },
+    })
+  );
 
-  // Auto-refresh when documents are saved
+  // Auto-refresh when Dart files or analysis options are saved. The analysis server watches
+  // files itself, so saves only need handling when the CLI is used.
   context.subscriptions.push(
     vscode.workspace.onDidSaveTextDocument(async (document) => {
-      if (document.languageId === 'dart' && DartAnalysisPanel.currentPanel) {
-        await DartAnalysisPanel.currentPanel.refresh('flutter');
+      const config = getConfig();
+      if (
+        !affectsAnalysis(document) ||
+        !config.refreshOnSave ||
+        config.provider === 'analysisServer' ||
+        !isWatched() ||
+        !(await hasPackages())
+      ) {
+        return;
       }
+      service.scheduleRefresh();
     })
   );
+
+  // Periodic refresh while the panel or the issues view is on screen. A full
+  // analysis can take longer than the interval, so the status bar and the
+  // Problems view only follow saves. Runs that are still going are not
+  // queued up again.
+  let intervalTimer: NodeJS.Timeout | undefined;
+  const scheduleInterval = () => {
+    clearInterval(intervalTimer);
+    intervalTimer = undefined;
+    const seconds = getConfig().refreshInterval;
+    if (seconds > 0) {
+      intervalTimer = setInterval(async () => {
+        if (isVisible() && !service.isAnalyzing && (await hasPackages())) {
+          service.refresh({ paths: service.scope });
+        }
+      }, seconds * 1000);
+    }
+  };
+  scheduleInterval();
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeConfiguration((event) => {
+      if (affectsConfig(event, 'refreshInterval')) {
+        scheduleInterval();
+      }
+    }),
+    { dispose: () => clearInterval(intervalTimer) }
+  );
+
+  // The status bar and the Problems view need results without any view open
+  const config = getConfig();
+  if (
+    (config.showStatusBar || config.publishDiagnostics) &&
+    vscode.workspace.workspaceFolders
+  ) {
+    hasPackages().then((found) => {
+      if (found && !service.hasResults) {
+        service.refresh();
+      }
+    });
+  }
 }
 
 export function deactivate() {}
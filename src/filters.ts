@@ -0,0 +1,440 @@
+import * as path from 'path';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { Baseline, BaselineComparison, compareWithBaseline } from './baseline';
+import { ChangedFiles, GitScope } from './gitScope';
+import { Triage, TriageEntry, isAssignedTo, isTriaged } from './triage';
+
+export type GroupBy = 'file' | 'code' | 'severity' | 'directory';
+
+export interface IssueFilters {
+  /** Case-insensitive text matched against message, code and file */
+  search: string;
+  hiddenSeverities: IssueSeverity[];
+  /** Comma-separated globs; when set, only matching files are shown */
+  include: string;
+  /** Comma-separated globs for files to hide, e.g. `**\/*.g.dart` */
+  exclude: string;
+  groupBy: GroupBy;
+  /** Hide issues that are recorded in the baseline file */
+  newOnly: boolean;
+  /** Hide issues that are reviewed, won't be fixed or snoozed */
+  hideTriaged: boolean;
+  /** Only show issues assigned to the current user */
+  assignedToMe: boolean;
+  scope: GitScope;
+  /** Branch that the `branch` and `lines` scopes compare against */
+  baseBranch: string;
+}
+
+export const defaultFilters: IssueFilters = {
+  search: '',
+  hiddenSeverities: [],
+  include: '',
+  exclude: '',
+  groupBy: 'file',
+  newOnly: false,
+  hideTriaged: false,
+  assignedToMe: false,
+  scope: 'all',
+  baseBranch: '',
+};
+
+/** Per-issue state that filters depend on but that is not part of the issue */
+export interface FilterContext {
+  /** Indexes of the issues covered by the baseline */
+  baselined?: Set<number>;
+  /** Indexes of the issues that are triaged, see `isTriaged` */
+  triaged?: Set<number>;
+  /** Indexes of the issues assigned to the current user */
+  assigned?: Set<number>;
+  /** Files changed in git; only applied when the scope is not `all` */
+  changes?: ChangedFiles;
+}
+
+export interface IssueGroup {
+  /** Stable key used to remember collapsed state across renders */
+  key: string;
+  label: string;
+  description?: string;
+  /** Indexes into the full issue list, for leaf groups */
+  indexes: number[];
+  children: IssueGroup[];
+  count: number;
+}
+
+/** Issues with the filters applied, as every view renders them */
+export interface FilteredIssues {
+  issues: AnalysisIssue[];
+  visible: number[];
+  groups: IssueGroup[];
+  comparison?: BaselineComparison;
+  /** Triage state by issue index, for the issues that have one */
+  triage: Map<number, TriageEntry>;
+}
+
+/** State besides the issues themselves that the filters are applied with */
+export interface FilterState {
+  baseline?: Baseline;
+  triage?: Triage;
+  /** Who "assigned to me" refers to */
+  triageUser?: string;
+  changes?: ChangedFiles;
+}
+
+/**
+ * Matches the issues against the baseline and triage, then filters and
+ * groups them.
+ */
+export function applyFilters(
+  issues: AnalysisIssue[],
+  filters: IssueFilters,
+  state: FilterState = {}
+): FilteredIssues {
+  const comparison = state.baseline
+    ? compareWithBaseline(issues, state.baseline)
+    : undefined;
+  const triage = new Map<number, TriageEntry>();
+  const triaged = new Set<number>();
+  const assigned = new Set<number>();
+  issues.forEach((issue, index) => {
+    const entry = issue.fingerprint
+      ? state.triage?.issues[issue.fingerprint]
+      : undefined;
+    // An expired snooze leaves nothing to show
+    if (!entry || !(isTriaged(entry) || entry.assignee)) {
+      return;
+    }
+    triage.set(index, entry);
+    if (isTriaged(entry)) {
+      triaged.add(index);
+    }
+    if (isAssignedTo(entry, state.triageUser)) {
+      assigned.add(index);
+    }
+  });
+  const visible = filterIssues(issues, filters, {
+    baselined: comparison?.baselined,
+    triaged,
+    assigned,
+    changes: state.changes,
+  });
+  return {
+    issues,
+    visible,
+    groups: groupIssues(issues, visible, filters.groupBy),
+    comparison,
+    triage,
+  };
+}
+
+/**
+ * Returns the indexes of the issues that pass every filter.
+ */
+export function filterIssues(
+  issues: AnalysisIssue[],
+  filters: IssueFilters,
+  context: FilterContext = {}
+): number[] {
+  const search = filters.search.trim().toLowerCase();
+  const include = parseGlobs(filters.include);
+  const exclude = parseGlobs(filters.exclude);
+  const indexes: number[] = [];
+
+  issues.forEach((issue, index) => {
+    if (filters.hiddenSeverities.includes(issue.severity)) {
+      return;
+    }
+    if (filters.newOnly && context.baselined?.has(index)) {
+      return;
+    }
+    if (filters.hideTriaged && context.triaged?.has(index)) {
+      return;
+    }
+    if (filters.assignedToMe && !context.assigned?.has(index)) {
+      return;
+    }
+    if (
+      filters.scope !== 'all' &&
+      context.changes &&
+      !isChanged(issue, filters.scope, context.changes)
+    ) {
+      return;
+    }
+    const file = toPosixPath(issue.file);
+    if (include.length > 0 && !include.some((glob) => glob.test(file))) {
+      return;
+    }
+    if (exclude.some((glob) => glob.test(file))) {
+      return;
+    }
+    if (
+      search &&
+      !issue.message.toLowerCase().includes(search) &&
+      !issue.code.toLowerCase().includes(search) &&
+      !file.toLowerCase().includes(search)
+    ) {
+      return;
+    }
+    indexes.push(index);
+  });
+
+  return indexes;
+}
+
+function isChanged(
+  issue: AnalysisIssue,
+  scope: GitScope,
+  changes: ChangedFiles
+): boolean {
+  const file = path.join(issue.packageRoot, issue.file);
+  if (!changes.has(file)) {
+    return false;
+  }
+  const ranges = changes.get(file);
+  return (
+    scope !== 'lines' ||
+    !ranges ||
+    ranges.some((range) => issue.line >= range.start && issue.line <= range.end)
+  );
+}
+
+/**
+ * Groups the given issue indexes according to `groupBy`. Grouping by file
+ * or directory adds a package level when more than one package has issues.
+ */
+export function groupIssues(
+  issues: AnalysisIssue[],
+  indexes: number[],
+  groupBy: GroupBy
+): IssueGroup[] {
+  const byPosition = (a: number, b: number) =>
+    issues[a].packageRoot.localeCompare(issues[b].packageRoot) ||
+    issues[a].file.localeCompare(issues[b].file) ||
+    issues[a].line - issues[b].line ||
+    issues[a].column - issues[b].column;
+  const sorted = [...indexes].sort(byPosition);
+
+  switch (groupBy) {
+    case 'code':
+      return sortGroups(
+        groupByKey(sorted, (index) => issues[index].code, 'code:')
+      );
+    case 'severity': {
+      const order: IssueSeverity[] = ['error', 'warning', 'info', 'hint'];
+      return groupByKey(sorted, (index) => issues[index].severity, 'severity:')
+        .sort(
+          (a, b) =>
+            order.indexOf(a.label as IssueSeverity) -
+            order.indexOf(b.label as IssueSeverity)
+        );
+    }
+    case 'directory':
+      return groupByPackage(issues, sorted, (packageIndexes, prefix) =>
+        groupByDirectory(issues, packageIndexes, prefix)
+      );
+    default:
+      return groupByPackage(issues, sorted, (packageIndexes, prefix) =>
+        sortGroups(
+          groupByKey(packageIndexes, (index) => issues[index].file, prefix)
+        )
+      );
+  }
+}
+
+/**
+ * Returns the issue indexes in the order the views list them: each group's
+ * subgroups first, then its own issues.
+ */
+export function orderIssues(groups: IssueGroup[]): number[] {
+  const order: number[] = [];
+  const visit = (group: IssueGroup) => {
+    group.children.forEach(visit);
+    order.push(...group.indexes);
+  };
+  groups.forEach(visit);
+  return order;
+}
+
+function groupByKey(
+  indexes: number[],
+  keyOf: (index: number) => string,
+  prefix: string
+): IssueGroup[] {
+  const groups = new Map<string, IssueGroup>();
+  for (const index of indexes) {
+    const label = keyOf(index);
+    let group = groups.get(label);
+    if (!group) {
+      group = {
+        key: prefix + label,
+        label,
+        indexes: [],
+        children: [],
+        count: 0,
+      };
+      groups.set(label, group);
+    }
+    group.indexes.push(index);
+    group.count++;
+  }
+  return Array.from(groups.values());
+}
+
+function groupByPackage(
+  issues: AnalysisIssue[],
+  indexes: number[],
+  groupWithin: (indexes: number[], keyPrefix: string) => IssueGroup[]
+): IssueGroup[] {
+  const packages = groupByKey(
+    indexes,
+    (index) => issues[index].packageRoot,
+    'package:'
+  );
+  if (packages.length === 1) {
+    return groupWithin(packages[0].indexes, `${packages[0].key}/`);
+  }
+
+  return sortGroups(packages).map((pkg) => ({
+    ...pkg,
+    label: issues[pkg.indexes[0]].packageName,
+    description: pkg.label,
+    indexes: [],
+    children: groupWithin(pkg.indexes, `${pkg.key}/`),
+  }));
+}
+
+function groupByDirectory(
+  issues: AnalysisIssue[],
+  indexes: number[],
+  keyPrefix: string
+): IssueGroup[] {
+  const root: IssueGroup = {
+    key: keyPrefix,
+    label: '',
+    indexes: [],
+    children: [],
+    count: 0,
+  };
+
+  for (const index of indexes) {
+    const segments = toPosixPath(issues[index].file).split('/');
+    let node = root;
+    node.count++;
+    segments.forEach((segment, i) => {
+      let child = node.children.find((c) => c.label === segment);
+      if (!child) {
+        child = {
+          key: `${node.key}${segment}${i < segments.length - 1 ? '/' : ''}`,
+          label: segment,
+          indexes: [],
+          children: [],
+          count: 0,
+        };
+        node.children.push(child);
+      }
+      child.count++;
+      node = child;
+    });
+    node.indexes.push(index);
+  }
+
+  const sortTree = (groups: IssueGroup[]): IssueGroup[] =>
+    groups
+      // Directories first, then files, each alphabetically
+      .sort(
+        (a, b) =>
+          Number(a.children.length === 0) - Number(b.children.length === 0) ||
+          a.label.localeCompare(b.label)
+      )
+      .map((group) => ({ ...group, children: sortTree(group.children) }));
+  return sortTree(root.children);
+}
+
+function sortGroups(groups: IssueGroup[]): IssueGroup[] {
+  return groups.sort((a, b) => a.label.localeCompare(b.label));
+}
+
+function parseGlobs(globs: string): RegExp[] {
+  // Split on commas that are not inside `{a,b}` alternatives
+  const patterns: string[] = [];
+  let current = '';
+  let depth = 0;
+  for (const char of globs) {
+    if (char === ',' && depth === 0) {
+      patterns.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth = Math.max(0, depth - 1);
+    }
+    current += char;
+  }
+  patterns.push(current);
+
+  return patterns
+    .map((glob) => glob.trim())
+    .filter((glob) => glob.length > 0)
+    .map(globToRegExp);
+}
+
+/**
+ * Converts a glob to a regular expression over `/`-separated paths.
+ * Supports `**`, `*`, `?` and `{a,b}` alternatives. Patterns without a `/`
+ * match the file name in any directory, like `.gitignore`. Braces without a
+ * partner, e.g. while `{a,b}` is being typed, match themselves.
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob.includes('/') ? glob : `**/${glob}`;
+  const groups = findBraceGroups(pattern);
+  let source = '';
+  let braceDepth = 0;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      i++;
+      if (pattern[i + 1] === '/') {
+        // `**/` matches zero or more directories
+        i++;
+        source += '(?:.*/)?';
+      } else {
+        source += '.*';
+      }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (groups.has(i)) {
+      braceDepth += char === '{' ? 1 : -1;
+      source += char === '{' ? '(?:' : ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$(){}|[\]\\]/g, '\\$&');
+    }
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+// Positions of the braces that open or close a `{a,b}` group
+function findBraceGroups(pattern: string): Set<number> {
+  const groups = new Set<number>();
+  const open: number[] = [];
+  for (let i = 0; i < pattern.length; i++) {
+    if (pattern[i] === '{') {
+      open.push(i);
+    } else if (pattern[i] === '}' && open.length > 0) {
+      groups.add(open.pop()!);
+      groups.add(i);
+    }
+  }
+  return groups;
+}
+
+function toPosixPath(file: string): string {
+  return file.replace(/\\/g, '/');
+}
@@ -0,0 +1,256 @@
+import { execFile } from 'child_process';
+import * as path from 'path';
+
+/**
+ * Which files the panel reports on:
+ * - `all`: every file
+ * - `workingTree`: files with uncommitted changes, including untracked files
+ * - `branch`: files changed since the merge base with the base branch
+ * - `lines`: only issues on changed lines, compared with the base branch when
+ *   one is set and with `HEAD` otherwise
+ */
+export type GitScope = 'all' | 'workingTree' | 'branch' | 'lines';
+
+/** Inclusive, 1-based range of changed lines */
+export interface LineRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Changed files by absolute path. Untracked files map to `undefined`, meaning
+ * every line counts as changed.
+ */
+export type ChangedFiles = Map<string, LineRange[] | undefined>;
+
+/**
+ * Collects the changes under `dir` compared with `HEAD`, or with the merge
+ * base of `HEAD` and `baseBranch` when given. Paths are resolved against
+ * `dir` itself rather than the repository root so that they match the
+ * issue paths even when the workspace is opened through a symlink.
+ */
+export async function getChangedFiles(
+  dir: string,
+  baseBranch?: string
+): Promise<ChangedFiles> {
+  // Fails with a short message outside a repository, unlike `git diff`
+  await git(dir, ['rev-parse', '--show-toplevel']);
+  const ref = baseBranch
+    ? (await git(dir, ['merge-base', checkRef(baseBranch), 'HEAD'])).trim()
+    : 'HEAD';
+
+  const diff = await git(dir, [
+    '-c',
+    'core.quotePath=false',
+    'diff',
+    '--relative',
+    '--no-color',
+    '--no-ext-diff',
+    '--src-prefix=a/',
+    '--dst-prefix=b/',
+    '--unified=0',
+    ref,
+    '--',
+  ]);
+  const changes = parseDiffHunks(diff, dir);
+
+  const untracked = await git(dir, [
+    'ls-files',
+    '--others',
+    '--exclude-standard',
+    '-z',
+  ]);
+  for (const file of untracked.split('\0')) {
+    if (file) {
+      changes.set(path.join(dir, file), undefined);
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Collects the changes of several folders. Folders that are not in a git
+ * repository are reported in `error` but do not hide the changes of the
+ * others; `changes` is only missing when every folder failed.
+ */
+export async function getChangedFilesOf(
+  dirs: string[],
+  baseBranch?: string
+): Promise<{ changes?: ChangedFiles; error?: string }> {
+  const changedFiles: ChangedFiles = new Map();
+  const errors: string[] = [];
+  for (const dir of dirs) {
+    try {
+      const changes = await getChangedFiles(dir, baseBranch);
+      changes.forEach((ranges, file) => changedFiles.set(file, ranges));
+    } catch (error) {
+      errors.push(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  const failed = errors.length > 0 && changedFiles.size === 0;
+  return {
+    changes: failed ? undefined : changedFiles,
+    error: errors.length > 0 ? errors[0] : undefined,
+  };
+}
+
+/**
+ * Parses `git diff --unified=0` output into the changed line ranges of the
+ * new version of each file. Deleted files are left out, and renamed files
+ * without edits have no changed lines.
+ */
+export function parseDiffHunks(diff: string, dir: string): ChangedFiles {
+  const changes: ChangedFiles = new Map();
+  let ranges: LineRange[] | undefined;
+
+  for (const line of diff.split('\n')) {
+    // Renames without edits have no `+++` line
+    if (line.startsWith('rename to ')) {
+      ranges = undefined;
+      changes.set(path.join(dir, line.slice(10).trim()), []);
+      continue;
+    }
+    if (line.startsWith('+++ ')) {
+      const target = line.slice(4).trim();
+      if (target === '/dev/null') {
+        ranges = undefined;
+        continue;
+      }
+      ranges = [];
+      changes.set(path.join(dir, target.replace(/^b\//, '')), ranges);
+      continue;
+    }
+
+    const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+    if (hunk && ranges) {
+      const start = Number(hunk[1]);
+      const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+      // Pure deletions have no lines in the new version
+      if (count > 0) {
+        ranges.push({ start, end: start + count - 1 });
+      }
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Returns the local and remote branches of the repository containing `dir`.
+ */
+export async function listBranches(dir: string): Promise<string[]> {
+  const output = await git(dir, [
+    'for-each-ref',
+    '--format=%(refname)',
+    'refs/heads',
+    'refs/remotes',
+  ]);
+  return output
+    .split('\n')
+    .map((ref) => ref.trim())
+    .filter((ref) => ref && !ref.endsWith('/HEAD'))
+    .map((ref) => ref.replace(/^refs\/(heads|remotes)\//, ''));
+}
+
+/**
+ * Returns the commit checked out in the repository containing `dir`, or
+ * undefined outside a repository or before the first commit.
+ */
+export async function getHeadCommit(dir: string): Promise<string | undefined> {
+  try {
+    return (await git(dir, ['rev-parse', 'HEAD'])).trim();
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Returns the configured `user.name`, falling back to `user.email`, or
+ * undefined when neither is set.
+ */
+export async function getGitUser(dir: string): Promise<string | undefined> {
+  for (const key of ['user.name', 'user.email']) {
+    try {
+      const value = (await git(dir, ['config', key])).trim();
+      if (value) {
+        return value;
+      }
+    } catch {
+      // Unset keys make `git config` fail
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the top level folder of the repository containing `dir`, resolved
+ * against `dir` like `getChangedFiles` does.
+ */
+export async function getRepositoryRoot(dir: string): Promise<string> {
+  const cdup = (await git(dir, ['rev-parse', '--show-cdup'])).trim();
+  return path.resolve(dir, cdup);
+}
+
+/** Resolves a branch, tag or other ref to its commit */
+export async function resolveCommit(dir: string, ref: string): Promise<string> {
+  return (
+    await git(dir, ['rev-parse', '--verify', `${checkRef(ref)}^{commit}`])
+  ).trim();
+}
+
+/** Refuses refs that git would read as an option, such as `--output=x` */
+function checkRef(ref: string): string {
+  if (ref.startsWith('-')) {
+    throw new Error(`"${ref}" is not a valid branch or ref name`);
+  }
+  return ref;
+}
+
+/**
+ * Checks `commit` out into a new detached worktree at `target`, which must
+ * not exist or be empty.
+ */
+export async function addWorktree(
+  dir: string,
+  commit: string,
+  target: string
+): Promise<void> {
+  await git(dir, ['worktree', 'add', '--detach', target, commit]);
+}
+
+/**
+ * Removes a worktree created by `addWorktree` together with any files that
+ * were created in it, such as `.dart_tool`.
+ */
+export async function removeWorktree(
+  dir: string,
+  target: string
+): Promise<void> {
+  await git(dir, ['worktree', 'remove', '--force', target]);
+}
+
+function git(cwd: string, args: string[]): Promise<string> {
+  const subcommand = args[0] === '-c' ? args[2] : args[0];
+  return new Promise((resolve, reject) => {
+    execFile(
+      'git',
+      args,
+      { cwd, maxBuffer: 10 * 1024 * 1024 },
+      (error, stdout, stderr) => {
+        if (error) {
+          reject(
+            new Error(
+              `\`git ${subcommand}\` failed: ${
+                stderr.trim().split('\n')[0] || error.message
+              }`
+            )
+          );
+          return;
+        }
+        resolve(stdout);
+      }
+    );
+  });
+}
@@ -0,0 +1,291 @@
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { fingerprintIssues, readBaseline } from './baseline';
+import { ProviderSetting } from './config';
+import {
+  DartPackage,
+  attributeToPackages,
+  findDartPackages,
+  getAnalysisRoots,
+} from './dartPackages';
+import {
+  IssueFilters,
+  IssueGroup,
+  applyFilters,
+  defaultFilters,
+} from './filters';
+import { getChangedFilesOf } from './gitScope';
+import { PanelResults, createUpdateMessage, getPanelHtml } from './panelHtml';
+import {
+  AnalysisProvider,
+  analyzeWithFallback,
+} from './providers/analysisProvider';
+import {
+  Analyzer,
+  CliJsonProvider,
+  CliMachineProvider,
+  CliOptions,
+  CliTextProvider,
+  DEFAULT_MAX_BUFFER,
+  getToolCommand,
+} from './providers/cliProvider';
+import { CustomCommandProvider } from './providers/customCommandProvider';
+import { readTriage } from './triage';
+
+export const SEVERITIES: IssueSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+/**
+ * Options of a run outside VS Code. They mirror the `dartAnalysisPanel.*`
+ * settings; the editor-based providers are not available.
+ */
+export interface HeadlessOptions {
+  /** Folder searched for Dart packages, like a workspace folder */
+  folder: string;
+  analyzer?: 'auto' | Analyzer;
+  sdkPath?: string;
+  commandPrefix?: string;
+  extraArgs?: string[];
+  provider?: Exclude<ProviderSetting, 'editor' | 'analysisServer'>;
+  customCommand?: string;
+  /** Largest analyzer output accepted, in megabytes */
+  maxOutputSize?: number;
+  filters?: Partial<IssueFilters>;
+  /** Baseline file relative to `folder`; ignored when it does not exist */
+  baselineFile?: string;
+  /** Triage file relative to `folder`; ignored when it does not exist */
+  triageFile?: string;
+  /** Who "assigned to me" means */
+  triageUser?: string;
+  signal?: AbortSignal;
+}
+
+/** Results of a headless run, in the shape the panel renders */
+export interface HeadlessResults extends PanelResults {
+  packages: DartPackage[];
+  analyzer: Analyzer;
+}
+
+/**
+ * Analyzes the Dart packages in a folder the way the extension does and
+ * applies the same baseline, triage, git scope and filters, without VS Code.
+ */
+export async function analyzeFolder(
+  options: HeadlessOptions
+): Promise<HeadlessResults> {
+  const folder = path.resolve(options.folder);
+  const packages = await findDartPackages([folder]);
+  if (packages.length === 0) {
+    throw new Error(`No Dart packages found in ${folder}`);
+  }
+  const analyzer =
+    options.analyzer && options.analyzer !== 'auto'
+      ? options.analyzer
+      : packages.some((pkg) => pkg.usesFlutter)
+        ? 'flutter'
+        : 'dart';
+
+  const roots = getAnalysisRoots(packages).map((pkg) => pkg.root);
+  const outcome = await analyzeWithFallback(
+    createProviders(analyzer, options),
+    roots,
+    options.signal
+  );
+  const issues = attributeToPackages(outcome.issues, packages);
+  const fingerprints = await fingerprintIssues(issues);
+  issues.forEach((issue, index) => (issue.fingerprint = fingerprints[index]));
+
+  const baseline = await readBaseline(
+    path.resolve(folder, options.baselineFile ?? 'dart_analysis_baseline.json')
+  );
+  const triage = await readTriage(
+    path.resolve(folder, options.triageFile ?? 'dart_analysis_triage.json')
+  );
+  const filters: IssueFilters = { ...defaultFilters, ...options.filters };
+  const { changes, error: gitScopeError } =
+    filters.scope === 'all'
+      ? {}
+      : await getChangedFilesOf(
+          roots,
+          filters.scope === 'workingTree'
+            ? undefined
+            : filters.baseBranch || undefined
+        );
+  if (filters.scope !== 'all' && !changes) {
+    throw new Error(gitScopeError);
+  }
+
+  return {
+    ...applyFilters(issues, filters, {
+      baseline,
+      triage,
+      triageUser: options.triageUser,
+      changes,
+    }),
+    packages,
+    analyzer,
+    filters,
+    triageUser: options.triageUser,
+    source: { provider: outcome.provider.label, fallbacks: outcome.fallbacks },
+    gitScopeError,
+  };
+}
+
+/**
+ * Counts the issues that pass the filters and are at least as severe as
+ * `threshold`, e.g. to fail a CI build.
+ */
+export function countAtOrAbove(
+  results: PanelResults,
+  threshold: IssueSeverity
+): number {
+  const rank = SEVERITIES.indexOf(threshold);
+  return results.visible.filter(
+    (index) => SEVERITIES.indexOf(results.issues[index].severity) <= rank
+  ).length;
+}
+
+/**
+ * Formats the issues that pass the filters as a plain text report, grouped
+ * the same way as in the panel. `color` adds ANSI colors for terminals.
+ */
+export function formatTerminalReport(
+  results: PanelResults,
+  color = false
+): string {
+  const { issues, visible, comparison } = results;
+  const paint = (code: number, text: string) =>
+    color ? `\x1b[${code}m${text}\x1b[0m` : text;
+  const SEVERITY_COLORS: Record<IssueSeverity, number> = {
+    error: 31,
+    warning: 33,
+    info: 36,
+    hint: 2,
+  };
+  const lines: string[] = [];
+
+  const printIssue = (issue: AnalysisIssue, index: number, indent: string) => {
+    const isNew = comparison && !comparison.baselined.has(index);
+    lines.push(
+      indent +
+        [
+          paint(SEVERITY_COLORS[issue.severity], issue.severity.padEnd(7)),
+          `${issue.line}:${issue.column}`.padEnd(8),
+          paint(2, issue.code),
+          issue.message,
+          isNew ? paint(35, '(new)') : '',
+        ]
+          .filter(Boolean)
+          .join('  ')
+    );
+  };
+  const printGroup = (group: IssueGroup, depth: number) => {
+    const indent = '  '.repeat(depth);
+    lines.push(
+      indent +
+        [
+          paint(1, group.label),
+          group.description ? paint(2, group.description) : '',
+          paint(2, `(${group.count})`),
+        ]
+          .filter(Boolean)
+          .join(' ')
+    );
+    group.children.forEach((child) => printGroup(child, depth + 1));
+    group.indexes.forEach((index) =>
+      printIssue(issues[index], index, indent + '  ')
+    );
+  };
+  results.groups.forEach((group) => {
+    printGroup(group, 0);
+    lines.push('');
+  });
+
+  const counts = SEVERITIES.map(
+    (severity) =>
+      visible.filter((index) => issues[index].severity === severity).length
+  );
+  const total =
+    visible.length === issues.length
+      ? `${issues.length} issue${issues.length !== 1 ? 's' : ''}`
+      : `${visible.length} of ${issues.length} issues`;
+  lines.push(
+    `${total}: ` +
+      SEVERITIES.map((severity, i) => `${counts[i]} ${severity}`).join(', ') +
+      (comparison
+        ? `; ${comparison.newCount} new, ` +
+          `${comparison.fixedCount} fixed since the baseline`
+        : '')
+  );
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Renders the results as a standalone HTML page that looks like the panel:
+ * it inlines the panel's stylesheet and script and feeds them the same
+ * `update` message the extension posts.
+ */
+export async function createHtmlReport(results: PanelResults): Promise<string> {
+  const media = path.join(__dirname, '..', 'media');
+  const [panelCss, reportCss, panelJs] = await Promise.all(
+    ['panel.css', 'report.css', 'panel.js'].map((file) =>
+      fs.readFile(path.join(media, file), 'utf8')
+    )
+  );
+  // Closing tags in messages must not end the inline script
+  const message = JSON.stringify(createUpdateMessage(results)).replace(
+    /</g,
+    '\\u003c'
+  );
+  return getPanelHtml(
+    `    <style>\n${panelCss}\n${reportCss}    </style>`,
+    [
+      // There is no extension to talk to; messages and state go nowhere
+      '    <script>window.acquireVsCodeApi = () => ' +
+        '({ postMessage() {}, getState() {}, setState() {} });</script>',
+      `    <script>\n${panelJs}    </script>`,
+      `    <script>window.postMessage(${message}, '*');</script>`,
+    ].join('\n')
+  );
+}
+
+function createProviders(
+  analyzer: Analyzer,
+  options: HeadlessOptions
+): AnalysisProvider[] {
+  const cliOptions: CliOptions = {
+    executable: getToolCommand(
+      {
+        sdkPath: options.sdkPath ?? '',
+        commandPrefix: options.commandPrefix ?? '',
+      },
+      analyzer
+    ),
+    extraArgs: options.extraArgs ?? [],
+    maxBuffer: options.maxOutputSize
+      ? options.maxOutputSize * 1024 * 1024
+      : DEFAULT_MAX_BUFFER,
+  };
+
+  switch (options.provider) {
+    case 'json':
+      return [new CliJsonProvider(cliOptions)];
+    case 'machine':
+      return [new CliMachineProvider(cliOptions)];
+    case 'text':
+      return [new CliTextProvider(cliOptions)];
+    case 'command':
+      return [
+        new CustomCommandProvider(
+          options.customCommand ?? '',
+          cliOptions.maxBuffer
+        ),
+      ];
+    default:
+      return [
+        new CliJsonProvider(cliOptions),
+        new CliMachineProvider(cliOptions),
+        new CliTextProvider(cliOptions),
+      ];
+  }
+}
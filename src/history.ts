@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { BaselineEntry, compareWithBaseline, createBaseline } from './baseline';
+
+const HISTORY_KEY = 'dartAnalysisPanel.history';
+const LAST_RUN_ISSUES_KEY = 'dartAnalysisPanel.lastRunIssues';
+// Keeps workspace storage small. With a results view open, periodic
+// refreshes record a run every 30 seconds by default, so this can be as
+// little as the last 100 minutes.
+const MAX_ENTRIES = 200;
+
+/** Counts of one completed analysis run */
+export interface HistoryEntry {
+  timestamp: string;
+  analyzer: string;
+  provider: string;
+  /** Commit checked out during the run, if the workspace is a git repo */
+  commit?: string;
+  total: number;
+  severities: Record<IssueSeverity, number>;
+  codes: Record<string, number>;
+}
+
+/**
+ * Only the latest run keeps its issues, as baseline entries, so that the
+ * next run can tell which issues are new and which were resolved.
+ */
+export interface LastRun {
+  entry: HistoryEntry;
+  issues: BaselineEntry[];
+}
+
+export interface RunComparison {
+  previous: HistoryEntry;
+  /** Indexes of the current issues that the previous run did not report */
+  introduced: number[];
+  /** Issues of the previous run that are gone */
+  resolved: BaselineEntry[];
+}
+
+/**
+ * Per-workspace record of analysis runs, kept in workspace storage.
+ */
+export class AnalysisHistory {
+  private readonly _storage: vscode.Memento;
+
+  constructor(storage: vscode.Memento) {
+    this._storage = storage;
+  }
+
+  /** Recorded runs, oldest first */
+  public get entries(): HistoryEntry[] {
+    return this._storage.get<HistoryEntry[]>(HISTORY_KEY, []);
+  }
+
+  /** The run recorded last, with its issues */
+  public get lastRun(): LastRun | undefined {
+    const entries = this.entries;
+    const issues = this._storage.get<BaselineEntry[]>(LAST_RUN_ISSUES_KEY);
+    return entries.length > 0 && issues
+      ? { entry: entries[entries.length - 1], issues }
+      : undefined;
+  }
+
+  /**
+   * Stores a completed run and returns the run it replaces as the latest.
+   * The issues are only written again when they differ from the latest
+   * run's, which they rarely do between periodic refreshes.
+   */
+  public async record(
+    issues: AnalysisIssue[],
+    details: Pick<HistoryEntry, 'analyzer' | 'provider' | 'commit'>
+  ): Promise<LastRun | undefined> {
+    const previous = this.lastRun;
+    const entry = createHistoryEntry(issues, details);
+    const snapshot = createBaseline(issues).issues;
+    await this._storage.update(
+      HISTORY_KEY,
+      [...this.entries, entry].slice(-MAX_ENTRIES)
+    );
+    if (!previous || !haveSameIssues(previous.issues, snapshot)) {
+      await this._storage.update(LAST_RUN_ISSUES_KEY, snapshot);
+    }
+    return previous;
+  }
+
+  public async clear() {
+    await this._storage.update(HISTORY_KEY, undefined);
+    await this._storage.update(LAST_RUN_ISSUES_KEY, undefined);
+  }
+}
+
+export function createHistoryEntry(
+  issues: AnalysisIssue[],
+  details: Pick<HistoryEntry, 'analyzer' | 'provider' | 'commit'>
+): HistoryEntry {
+  const severities: Record<IssueSeverity, number> = {
+    error: 0,
+    warning: 0,
+    info: 0,
+    hint: 0,
+  };
+  const codes: Record<string, number> = {};
+  for (const issue of issues) {
+    severities[issue.severity]++;
+    codes[issue.code] = (codes[issue.code] ?? 0) + 1;
+  }
+  return {
+    timestamp: new Date().toISOString(),
+    ...details,
+    total: issues.length,
+    severities,
+    codes,
+  };
+}
+
+// Both are sorted, see `createBaseline`
+function haveSameIssues(a: BaselineEntry[], b: BaselineEntry[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (issue, index) =>
+        issue.fingerprint === b[index].fingerprint &&
+        issue.message === b[index].message
+    )
+  );
+}
+
+/**
+ * Matches the current issues against a previous run by fingerprint, the same
+ * way baselines are matched.
+ */
+export function compareRuns(
+  issues: AnalysisIssue[],
+  previous: LastRun
+): RunComparison {
+  const comparison = compareWithBaseline(issues, {
+    version: 1,
+    createdAt: previous.entry.timestamp,
+    issues: previous.issues,
+  });
+  return {
+    previous: previous.entry,
+    introduced: issues
+      .map((_, index) => index)
+      .filter((index) => !comparison.baselined.has(index)),
+    resolved: comparison.fixed,
+  };
+}
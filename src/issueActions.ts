@@ -0,0 +1,394 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisIssue } from './analysisIssue';
+import {
+  DIAGNOSTIC_SEVERITIES,
+  DiagnosticSeverity,
+  disableDiagnostic,
+  setDiagnosticSeverity,
+} from './analysisOptions';
+import { getConfig } from './config';
+import {
+  getToolCommand,
+  quoteArg,
+  runCommand,
+} from './providers/cliProvider';
+import { TriageChange, TriageEntry, describeTriage, localDate } from './triage';
+
+interface IssueActionItem extends vscode.QuickPickItem {
+  /** Resolves to false when nothing was changed after all */
+  run?: () => Promise<boolean | void>;
+}
+
+/** Current triage state of an issue and how to change it */
+export interface IssueTriage {
+  entry?: TriageEntry;
+  /** Suggested as the assignee */
+  user?: string;
+  update: (change: TriageChange | undefined) => Promise<void>;
+}
+
+/**
+ * Shows the actions available for an issue: the quick fixes the Dart
+ * extension offers for its range, ignore comments, disabling the diagnostic
+ * or changing its severity in analysis_options.yaml, `dart fix` for every
+ * occurrence of its code and, with `triage`, recording a triage decision.
+ *
+ * Resolves to true when an action changed files and results should be
+ * refreshed.
+ */
+export async function showIssueActions(
+  issue: AnalysisIssue,
+  roots: string[],
+  triage?: IssueTriage
+): Promise<boolean> {
+  const uri = vscode.Uri.file(getIssuePath(issue));
+  const codeActions = await getCodeActions(uri, getIssueRange(issue));
+
+  const items: IssueActionItem[] = [];
+  if (codeActions.length > 0) {
+    items.push({
+      label: 'Quick Fixes',
+      kind: vscode.QuickPickItemKind.Separator,
+    });
+    for (const action of codeActions) {
+      items.push({
+        label: `$(lightbulb) ${action.title}`,
+        run: () => applyCodeAction(action),
+      });
+    }
+  }
+
+  items.push(
+    { label: 'Ignore', kind: vscode.QuickPickItemKind.Separator },
+    {
+      label: `$(comment) Ignore on this line`,
+      description: `// ignore: ${issue.code}`,
+      run: () => insertIgnoreComment(uri, issue),
+    },
+    {
+      label: `$(file) Ignore in this file`,
+      description: `// ignore_for_file: ${issue.code}`,
+      run: () => insertIgnoreForFileComment(uri, issue.code),
+    },
+    {
+      label: `$(settings-gear) Disable in analysis_options.yaml`,
+      description:
+        issue.type === 'LINT'
+          ? `linter: rules: ${issue.code}: false`
+          : `analyzer: errors: ${issue.code}: ignore`,
+      run: async () => {
+        const file = await disableDiagnostic(
+          issue.packageRoot,
+          issue.code,
+          issue.type === 'LINT'
+        );
+        const relativePath = vscode.workspace.asRelativePath(file);
+        vscode.window.showInformationMessage(
+          `Dart Analysis: Disabled ${issue.code} in ${relativePath}.`
+        );
+      },
+    },
+    {
+      label: `$(symbol-event) Change severity in analysis_options.yaml`,
+      description: `analyzer: errors: ${issue.code}: …`,
+      run: () => changeSeverity(issue),
+    },
+    { label: 'Fix All', kind: vscode.QuickPickItemKind.Separator },
+    {
+      label: `$(wrench) Fix all ${issue.code} in this file`,
+      description: `dart fix --apply --code=${issue.code}`,
+      run: () => runDartFix(issue.code, [issue.packageRoot], issue.file),
+    },
+    {
+      label: `$(wrench) Fix all ${issue.code} in the workspace`,
+      description: `dart fix --apply --code=${issue.code}`,
+      run: () => runDartFix(issue.code, roots),
+    }
+  );
+
+  if (triage) {
+    items.push(...getTriageItems(triage));
+  }
+
+  const picked = await vscode.window.showQuickPick(items, {
+    title: `${issue.code}: ${issue.message}`,
+    placeHolder: 'Choose an action',
+  });
+  if (!picked?.run) {
+    return false;
+  }
+
+  try {
+    return (await picked.run()) !== false;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    vscode.window.showErrorMessage(`Dart Analysis: ${errorMessage}`);
+    return false;
+  }
+}
+
+async function changeSeverity(issue: AnalysisIssue): Promise<boolean> {
+  const picked = await vscode.window.showQuickPick(
+    DIAGNOSTIC_SEVERITIES.map((severity) => ({
+      label: severity,
+      description: severity === issue.severity ? 'current' : undefined,
+    })),
+    { title: `Severity of ${issue.code}`, placeHolder: 'Choose a severity' }
+  );
+  if (!picked) {
+    return false;
+  }
+
+  const file = await setDiagnosticSeverity(
+    issue.packageRoot,
+    issue.code,
+    picked.label as DiagnosticSeverity
+  );
+  vscode.window.showInformationMessage(
+    `Dart Analysis: Set ${issue.code} to ${picked.label} in ${vscode.workspace.asRelativePath(file)}.`
+  );
+  return true;
+}
+
+// Triage only touches the triage file, so none of these ask for a refresh
+function getTriageItems(triage: IssueTriage): IssueActionItem[] {
+  const { entry, update } = triage;
+  const items: IssueActionItem[] = [
+    {
+      label: 'Triage',
+      kind: vscode.QuickPickItemKind.Separator,
+    },
+    {
+      label: '$(check) Mark as reviewed',
+      run: async () => {
+        await update({ status: 'reviewed' });
+        return false;
+      },
+    },
+    {
+      label: "$(circle-slash) Won't fix…",
+      description: entry?.reason,
+      run: async () => {
+        const reason = await vscode.window.showInputBox({
+          title: "Won't Fix",
+          prompt: 'Why this issue will not be fixed',
+          value: entry?.reason,
+        });
+        if (reason !== undefined) {
+          await update({ status: 'wontFix', reason: reason.trim() });
+        }
+        return false;
+      },
+    },
+    {
+      label: '$(person) Assign…',
+      description: entry?.assignee,
+      run: async () => {
+        const assignee = await vscode.window.showInputBox({
+          title: 'Assign Issue',
+          prompt: 'Name or email of the assignee; leave empty to unassign',
+          value: entry?.assignee ?? triage.user,
+        });
+        if (assignee !== undefined) {
+          await update({ assignee: assignee.trim() || undefined });
+        }
+        return false;
+      },
+    },
+    {
+      label: '$(clock) Snooze…',
+      description: entry?.snoozedUntil,
+      run: async () => {
+        const snoozedUntil = await pickSnoozeDate();
+        if (snoozedUntil) {
+          await update({ snoozedUntil });
+        }
+        return false;
+      },
+    },
+  ];
+  if (entry) {
+    items.push({
+      label: '$(discard) Clear triage',
+      description: describeTriage(entry),
+      run: async () => {
+        await update(undefined);
+        return false;
+      },
+    });
+  }
+  return items;
+}
+
+async function pickSnoozeDate(): Promise<string | undefined> {
+  const inDays = (days: number) => {
+    const date = new Date();
+    date.setDate(date.getDate() + days);
+    return localDate(date);
+  };
+  const picked = await vscode.window.showQuickPick(
+    [
+      { label: 'Tomorrow', date: inDays(1) },
+      { label: 'In a week', date: inDays(7) },
+      { label: 'In a month', date: inDays(30) },
+      { label: 'Pick a date…', date: undefined },
+    ].map((item) => ({ ...item, description: item.date })),
+    { title: 'Snooze Until', placeHolder: 'The issue shows up again then' }
+  );
+  if (!picked || picked.date) {
+    return picked?.date;
+  }
+
+  const date = await vscode.window.showInputBox({
+    title: 'Snooze Until',
+    prompt: 'Date in YYYY-MM-DD format',
+    value: inDays(14),
+    validateInput: (value) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(value.trim()) &&
+      !isNaN(Date.parse(value.trim())) &&
+      value.trim() > localDate()
+        ? undefined
+        : 'Enter a future date such as 2030-01-31',
+  });
+  return date?.trim();
+}
+
+function getIssuePath(issue: AnalysisIssue): string {
+  return path.join(issue.packageRoot, issue.file);
+}
+
+function getIssueRange(issue: AnalysisIssue): vscode.Range {
+  return new vscode.Range(
+    issue.line - 1,
+    Math.max(0, issue.column - 1),
+    (issue.endLine ?? issue.line) - 1,
+    Math.max(0, (issue.endColumn ?? issue.column) - 1)
+  );
+}
+
+async function getCodeActions(
+  uri: vscode.Uri,
+  range: vscode.Range
+): Promise<vscode.CodeAction[]> {
+  try {
+    // Opening the document makes sure the Dart extension has analyzed it
+    await vscode.workspace.openTextDocument(uri);
+    const actions =
+      (await vscode.commands.executeCommand<
+        (vscode.CodeAction | vscode.Command)[]
+      >(
+        'vscode.executeCodeActionProvider',
+        uri,
+        range,
+        vscode.CodeActionKind.QuickFix.value
+      )) ?? [];
+    // Plain commands have a string `command`; code actions carry an object
+    return actions.filter(
+      (action): action is vscode.CodeAction =>
+        typeof action.command !== 'string'
+    );
+  } catch {
+    return [];
+  }
+}
+
+async function applyCodeAction(action: vscode.CodeAction) {
+  if (action.edit) {
+    await vscode.workspace.applyEdit(action.edit);
+  }
+  if (action.command) {
+    await vscode.commands.executeCommand(
+      action.command.command,
+      ...(action.command.arguments ?? [])
+    );
+  }
+  await saveDocumentsWithEdits(action.edit);
+}
+
+async function insertIgnoreComment(uri: vscode.Uri, issue: AnalysisIssue) {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const line = document.lineAt(issue.line - 1);
+  const edit = new vscode.WorkspaceEdit();
+
+  // Extend an existing `// ignore:` comment on the line above
+  const previous =
+    issue.line > 1 ? document.lineAt(issue.line - 2) : undefined;
+  const existing = previous?.text.match(/^(\s*\/\/\s*ignore:\s*)(.*)$/);
+  if (previous && existing) {
+    edit.replace(
+      uri,
+      previous.range,
+      `${existing[1]}${existing[2].trimEnd()}, ${issue.code}`
+    );
+  } else {
+    const indent = line.text.slice(0, line.firstNonWhitespaceCharacterIndex);
+    edit.insert(
+      uri,
+      line.range.start,
+      `${indent}// ignore: ${issue.code}\n`
+    );
+  }
+
+  await vscode.workspace.applyEdit(edit);
+  await document.save();
+}
+
+async function insertIgnoreForFileComment(uri: vscode.Uri, code: string) {
+  const document = await vscode.workspace.openTextDocument(uri);
+  const edit = new vscode.WorkspaceEdit();
+
+  let existing: vscode.TextLine | undefined;
+  for (let i = 0; i < document.lineCount; i++) {
+    const line = document.lineAt(i);
+    if (/^\s*\/\/\s*ignore_for_file:/.test(line.text)) {
+      existing = line;
+      break;
+    }
+  }
+
+  if (existing) {
+    edit.replace(uri, existing.range, `${existing.text.trimEnd()}, ${code}`);
+  } else {
+    edit.insert(
+      uri,
+      new vscode.Position(0, 0),
+      `// ignore_for_file: ${code}\n\n`
+    );
+  }
+
+  await vscode.workspace.applyEdit(edit);
+  await document.save();
+}
+
+async function runDartFix(code: string, roots: string[], file?: string) {
+  await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: `Dart Analysis: Applying fixes for ${code}`,
+    },
+    async () => {
+      const dart = getToolCommand(getConfig(), 'dart');
+      for (const root of roots) {
+        const target = file ? ` ${quoteArg(file)}` : '';
+        await runCommand(
+          `${dart} fix --apply ${quoteArg(`--code=${code}`)}${target}`,
+          root
+        );
+      }
+    }
+  );
+}
+
+async function saveDocumentsWithEdits(
+  edit: vscode.WorkspaceEdit | undefined
+) {
+  for (const [uri] of edit?.entries() ?? []) {
+    const document = vscode.workspace.textDocuments.find(
+      (doc) => doc.uri.toString() === uri.toString()
+    );
+    if (document?.isDirty) {
+      await document.save();
+    }
+  }
+}
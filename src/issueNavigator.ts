@@ -0,0 +1,101 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { AnalysisService } from './analysisService';
+import { getConfig } from './config';
+import { orderIssues } from './filters';
+import { openIssue } from './navigation';
+
+const SEVERITY_ORDER: IssueSeverity[] = ['error', 'warning', 'info', 'hint'];
+
+/**
+ * Opens the next (`1`) or previous (`-1`) issue in the order the panel lists
+ * them, skipping the issues hidden by the filters or below
+ * `navigationMinSeverity`. Continues from the active issue when the cursor is
+ * still on it, or else from the cursor position, and wraps around at either
+ * end.
+ */
+export async function goToIssue(service: AnalysisService, direction: 1 | -1) {
+  const view = service.getView();
+  const minRank = SEVERITY_ORDER.indexOf(getConfig().navigationMinSeverity);
+  const order = orderIssues(view.groups).filter(
+    (index) => SEVERITY_ORDER.indexOf(view.issues[index].severity) <= minRank
+  );
+  if (order.length === 0) {
+    vscode.window.showInformationMessage('Dart Analysis: No issues to go to.');
+    return;
+  }
+
+  const issues = order.map((index) => view.issues[index]);
+  const current = getCurrentPosition(issues, service.activeIssue, direction);
+  let next: number;
+  if (current === undefined) {
+    next = direction === 1 ? 0 : issues.length - 1;
+  } else {
+    next = current + direction;
+    if (next >= issues.length || next < 0) {
+      next = next < 0 ? issues.length - 1 : 0;
+      vscode.window.showInformationMessage(
+        direction === 1
+          ? 'Dart Analysis: Reached the last issue, continuing from the first.'
+          : 'Dart Analysis: Reached the first issue, continuing from the last.'
+      );
+    }
+  }
+
+  service.setActiveIssue(issues[next]);
+  await openIssue(issues[next]);
+}
+
+/**
+ * Position in `issues` to move on from. Positions between two issues are
+ * returned as the one just before (or after, going back) the cursor, so that
+ * adding `direction` lands on the nearest issue past it.
+ */
+function getCurrentPosition(
+  issues: AnalysisIssue[],
+  active: AnalysisIssue | undefined,
+  direction: 1 | -1
+): number | undefined {
+  const editor = vscode.window.activeTextEditor;
+  const file = editor?.document.uri.fsPath;
+  const cursor = editor?.selection.active;
+  const activePosition = active ? issues.indexOf(active) : -1;
+
+  if (
+    active &&
+    activePosition !== -1 &&
+    (!cursor ||
+      (file === getIssuePath(active) && cursor.line === active.line - 1))
+  ) {
+    return activePosition;
+  }
+  if (!cursor) {
+    return undefined;
+  }
+
+  const inFile: number[] = [];
+  issues.forEach((issue, position) => {
+    if (getIssuePath(issue) === file) {
+      inFile.push(position);
+    }
+  });
+  if (inFile.length === 0) {
+    return activePosition !== -1 ? activePosition : undefined;
+  }
+
+  const compare = (issue: AnalysisIssue) =>
+    issue.line - 1 - cursor.line || issue.column - 1 - cursor.character;
+  if (direction === 1) {
+    const after = inFile.find((position) => compare(issues[position]) > 0);
+    return (after ?? inFile[inFile.length - 1] + 1) - 1;
+  }
+  const before = [...inFile]
+    .reverse()
+    .find((position) => compare(issues[position]) < 0);
+  return (before ?? inFile[0] - 1) + 1;
+}
+
+function getIssuePath(issue: AnalysisIssue): string {
+  return path.join(issue.packageRoot, issue.file);
+}
@@ -0,0 +1,277 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisIssue, IssueSeverity } from './analysisIssue';
+import { AnalysisService, AnalysisView } from './analysisService';
+import { IssueGroup } from './filters';
+import { describeTriage } from './triage';
+
+interface GroupNode {
+  kind: 'group';
+  group: IssueGroup;
+  parent?: GroupNode;
+  children: IssueTreeNode[];
+}
+
+interface IssueNode {
+  kind: 'issue';
+  index: number;
+  issue: AnalysisIssue;
+  parent?: GroupNode;
+}
+
+export type IssueTreeNode = GroupNode | IssueNode;
+
+const SEVERITY_ICONS: Record<IssueSeverity, vscode.ThemeIcon> = {
+  error: new vscode.ThemeIcon(
+    'error',
+    new vscode.ThemeColor('problemsErrorIcon.foreground')
+  ),
+  warning: new vscode.ThemeIcon(
+    'warning',
+    new vscode.ThemeColor('problemsWarningIcon.foreground')
+  ),
+  info: new vscode.ThemeIcon(
+    'info',
+    new vscode.ThemeColor('problemsInfoIcon.foreground')
+  ),
+  hint: new vscode.ThemeIcon('lightbulb'),
+};
+
+/**
+ * Native tree of the analysis results, shown in the bottom panel. It renders
+ * the same filtered and grouped view as the webview panel.
+ */
+export class IssuesTreeView
+  implements vscode.TreeDataProvider<IssueTreeNode>, vscode.Disposable
+{
+  public static readonly viewId = 'dartAnalysisPanel.issues';
+
+  private readonly _service: AnalysisService;
+  private readonly _view: vscode.TreeView<IssueTreeNode>;
+  private _disposables: vscode.Disposable[] = [];
+  private _roots: IssueTreeNode[] | undefined;
+
+  private readonly _onDidChangeTreeData = new vscode.EventEmitter<void>();
+  public readonly onDidChangeTreeData = this._onDidChangeTreeData.event;
+
+  constructor(service: AnalysisService) {
+    this._service = service;
+    this._view = vscode.window.createTreeView(IssuesTreeView.viewId, {
+      treeDataProvider: this,
+      showCollapseAll: true,
+    });
+    this._disposables.push(this._view, this._onDidChangeTreeData);
+
+    service.onDidChange(
+      () => {
+        this._roots = undefined;
+        this._onDidChangeTreeData.fire();
+        this._updateMessage();
+      },
+      null,
+      this._disposables
+    );
+    service.onDidChangeStatus(
+      () => this._updateMessage(),
+      null,
+      this._disposables
+    );
+
+    // Like opening the panel, showing the view starts the first analysis
+    this._view.onDidChangeVisibility(
+      (event) => event.visible && this._analyzeOnFirstShow(),
+      null,
+      this._disposables
+    );
+    if (this._view.visible) {
+      this._analyzeOnFirstShow();
+    }
+    this._updateMessage();
+  }
+
+  public get visible(): boolean {
+    return this._view.visible;
+  }
+
+  public getTreeItem(node: IssueTreeNode): vscode.TreeItem {
+    return node.kind === 'group'
+      ? this._getGroupItem(node.group)
+      : this._getIssueItem(node);
+  }
+
+  public getChildren(node?: IssueTreeNode): IssueTreeNode[] {
+    if (!node) {
+      return this._getRoots();
+    }
+    return node.kind === 'group' ? node.children : [];
+  }
+
+  public getParent(node: IssueTreeNode): IssueTreeNode | undefined {
+    return node.parent;
+  }
+
+  private _analyzeOnFirstShow() {
+    if (!this._service.hasResults && !this._service.isAnalyzing) {
+      this._service.refresh();
+    }
+  }
+
+  private _getRoots(): IssueTreeNode[] {
+    if (!this._roots) {
+      const view = this._service.getView();
+      this._roots = view.groups.map((group) => this._createNode(view, group));
+    }
+    return this._roots;
+  }
+
+  private _createNode(
+    view: AnalysisView,
+    group: IssueGroup,
+    parent?: GroupNode
+  ): GroupNode {
+    const node: GroupNode = { kind: 'group', group, parent, children: [] };
+    node.children = [
+      ...group.children.map((child) => this._createNode(view, child, node)),
+      ...group.indexes.map(
+        (index): IssueNode => ({
+          kind: 'issue',
+          index,
+          issue: view.issues[index],
+          parent: node,
+        })
+      ),
+    ];
+    return node;
+  }
+
+  private _getGroupItem(group: IssueGroup): vscode.TreeItem {
+    const item = new vscode.TreeItem(
+      group.label,
+      vscode.TreeItemCollapsibleState.Expanded
+    );
+    item.id = `group:${group.key}`;
+    item.description = String(group.count);
+    item.tooltip = group.description ?? group.label;
+
+    if (group.key.startsWith('severity:')) {
+      item.iconPath = SEVERITY_ICONS[group.label as IssueSeverity];
+    } else if (group.key.startsWith('code:')) {
+      item.iconPath = new vscode.ThemeIcon('law');
+    } else if (group.description) {
+      // Only package groups carry a description, their root folder
+      item.iconPath = new vscode.ThemeIcon('package');
+    } else if (group.indexes.length > 0) {
+      const issue = this._service.issues[group.indexes[0]];
+      item.resourceUri = vscode.Uri.file(
+        path.join(issue.packageRoot, issue.file)
+      );
+      item.iconPath = vscode.ThemeIcon.File;
+    } else {
+      item.iconPath = vscode.ThemeIcon.Folder;
+    }
+    return item;
+  }
+
+  private _getIssueItem(node: IssueNode): vscode.TreeItem {
+    const { issue, index } = node;
+    const view = this._service.getView();
+    const item = new vscode.TreeItem(
+      issue.message.split('\n')[0],
+      vscode.TreeItemCollapsibleState.None
+    );
+    // Stays with the issue across refreshes, unlike its index. The same
+    // message at the same position is reported once, see
+    // `attributeToPackages`.
+    item.id = [
+      'issue',
+      issue.packageRoot,
+      issue.file,
+      issue.line,
+      issue.column,
+      issue.code,
+      issue.message,
+    ].join(':');
+    item.iconPath = SEVERITY_ICONS[issue.severity];
+    item.contextValue = issue.documentation ? 'issue.documented' : 'issue';
+
+    const groupBy = this._service.filters.groupBy;
+    const showFile = groupBy === 'code' || groupBy === 'severity';
+    const isNew = view.comparison && !view.comparison.baselined.has(index);
+    const triage = view.triage.get(index);
+    item.description = [
+      showFile ? path.basename(issue.file) : undefined,
+      `${issue.code} [Ln ${issue.line}, Col ${issue.column}]`,
+      isNew ? 'new' : undefined,
+      triage ? describeTriage(triage) : undefined,
+    ]
+      .filter(Boolean)
+      .join(' · ');
+
+    const tooltip = new vscode.MarkdownString(
+      `**${issue.severity}** \`${issue.code}\`\n\n`
+    );
+    tooltip.appendText(issue.message);
+    if (issue.correctionMessage) {
+      tooltip.appendMarkdown('\n\n');
+      tooltip.appendText(issue.correctionMessage);
+    }
+    if (triage?.reason) {
+      tooltip.appendMarkdown('\n\n');
+      tooltip.appendText(`Won't fix: ${triage.reason}`);
+    }
+    if (issue.documentation) {
+      tooltip.appendMarkdown(`\n\n[Documentation](${issue.documentation})`);
+    }
+    item.tooltip = tooltip;
+
+    item.command = {
+      command: 'dartAnalysisPanel.openIssue',
+      title: 'Open Issue',
+      arguments: [issue],
+    };
+    return item;
+  }
+
+  private _updateMessage() {
+    const service = this._service;
+    const { issues, visible } = service.getView();
+
+    if (!service.hasResults) {
+      this._view.message = service.status || undefined;
+    } else if (issues.length === 0 && !service.scope) {
+      this._view.message = 'No analysis issues found';
+    } else {
+      const parts: string[] = [];
+      if (service.scope) {
+        const paths = service.scope.map((file) =>
+          vscode.workspace.asRelativePath(file)
+        );
+        parts.push(`Only ${paths.join(', ')}`);
+      }
+      if (visible.length < issues.length) {
+        parts.push(`Showing ${visible.length} of ${issues.length} issues`);
+      }
+      if (service.gitScopeError) {
+        parts.push(service.gitScopeError);
+      }
+      this._view.message = parts.length > 0 ? parts.join(' · ') : undefined;
+    }
+
+    this._view.badge =
+      visible.length > 0
+        ? {
+            value: visible.length,
+            tooltip: `${visible.length} issue${visible.length !== 1 ? 's' : ''}`,
+          }
+        : undefined;
+  }
+
+  public dispose() {
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+}
@@ -0,0 +1,788 @@
+/**
+ * Offline metadata for the Dart lint rules, so that rule details work
+ * without network access or a resolved `lints` package. Descriptions follow
+ * the summaries on dart.dev; `set` is the smallest of the standard rule sets
+ * that enables the rule.
+ */
+
+export type LintRuleSet = 'core' | 'recommended' | 'flutter';
+
+export interface LintRuleInfo {
+  description: string;
+  set?: LintRuleSet;
+}
+
+// Each set includes the previous one
+const SET_ORDER: LintRuleSet[] = ['core', 'recommended', 'flutter'];
+
+/** Include URIs of the standard rule sets */
+export const RULE_SET_INCLUDES: Record<string, LintRuleSet> = {
+  'package:lints/core.yaml': 'core',
+  'package:lints/recommended.yaml': 'recommended',
+  'package:flutter_lints/flutter.yaml': 'flutter',
+};
+
+export const LINT_RULES: Record<string, LintRuleInfo> = {
+  always_declare_return_types: {
+    description: 'Declare method return types.',
+  },
+  always_put_control_body_on_new_line: {
+    description: 'Separate the control structure expression from its statement.',
+  },
+  always_put_required_named_parameters_first: {
+    description: 'Put required named parameters first.',
+  },
+  always_specify_types: {
+    description: 'Specify type annotations.',
+  },
+  always_use_package_imports: {
+    description: 'Avoid relative imports for files in `lib/`.',
+  },
+  annotate_overrides: {
+    description: 'Annotate overridden members.',
+    set: 'recommended',
+  },
+  avoid_annotating_with_dynamic: {
+    description: 'Avoid annotating with `dynamic` when not required.',
+  },
+  avoid_bool_literals_in_conditional_expressions: {
+    description: 'Avoid `bool` literals in conditional expressions.',
+  },
+  avoid_catches_without_on_clauses: {
+    description: 'Avoid catches without on clauses.',
+  },
+  avoid_catching_errors: {
+    description: "Don't explicitly catch `Error` or types that implement it.",
+  },
+  avoid_classes_with_only_static_members: {
+    description: 'Avoid defining a class that contains only static members.',
+  },
+  avoid_double_and_int_checks: {
+    description: 'Avoid `double` and `int` checks.',
+  },
+  avoid_dynamic_calls: {
+    description: 'Avoid method calls or property accesses on a `dynamic` target.',
+  },
+  avoid_empty_else: {
+    description: 'Avoid empty statements in else clauses.',
+    set: 'core',
+  },
+  avoid_equals_and_hash_code_on_mutable_classes: {
+    description:
+      'Avoid overloading operator == and hashCode on classes not marked `@immutable`.',
+  },
+  avoid_escaping_inner_quotes: {
+    description: 'Avoid escaping inner quotes by converting surrounding quotes.',
+  },
+  avoid_field_initializers_in_const_classes: {
+    description: 'Avoid field initializers in const classes.',
+  },
+  avoid_final_parameters: {
+    description: 'Avoid `final` for parameter declarations.',
+  },
+  avoid_function_literals_in_foreach_calls: {
+    description: 'Avoid using `forEach` with a function literal.',
+    set: 'recommended',
+  },
+  avoid_implementing_value_types: {
+    description: "Don't implement classes that override `==`.",
+  },
+  avoid_init_to_null: {
+    description: "Don't explicitly initialize variables to `null`.",
+    set: 'recommended',
+  },
+  avoid_js_rounded_ints: {
+    description:
+      'Avoid JavaScript rounded ints, which cannot be represented exactly on the web.',
+  },
+  avoid_multiple_declarations_per_line: {
+    description: "Don't declare multiple variables on a single line.",
+  },
+  avoid_null_checks_in_equality_operators: {
+    description: "Don't check for `null` in custom `==` operators.",
+  },
+  avoid_positional_boolean_parameters: {
+    description: 'Avoid positional boolean parameters.',
+  },
+  avoid_print: {
+    description: 'Avoid `print` calls in production code.',
+    set: 'flutter',
+  },
+  avoid_private_typedef_functions: {
+    description: 'Avoid private typedef functions.',
+  },
+  avoid_redundant_argument_values: {
+    description: 'Avoid redundant argument values.',
+  },
+  avoid_relative_lib_imports: {
+    description: 'Avoid relative imports for files in `lib/`.',
+    set: 'core',
+  },
+  avoid_renaming_method_parameters: {
+    description: "Don't rename parameters of overridden methods.",
+    set: 'recommended',
+  },
+  avoid_return_types_on_setters: {
+    description: 'Avoid return types on setters.',
+    set: 'recommended',
+  },
+  avoid_returning_null_for_void: {
+    description: 'Avoid returning `null` for `void`.',
+    set: 'recommended',
+  },
+  avoid_returning_this: {
+    description: 'Avoid returning `this` from methods just to enable a fluent interface.',
+  },
+  avoid_setters_without_getters: {
+    description: 'Avoid setters without getters.',
+  },
+  avoid_shadowing_type_parameters: {
+    description: 'Avoid shadowing type parameters.',
+    set: 'core',
+  },
+  avoid_single_cascade_in_expression_statements: {
+    description: 'Avoid single cascade in expression statements.',
+    set: 'recommended',
+  },
+  avoid_slow_async_io: {
+    description: 'Avoid slow asynchronous `dart:io` methods.',
+  },
+  avoid_type_to_string: {
+    description:
+      'Avoid `<Type>.toString()` in production code since results may be minified.',
+  },
+  avoid_types_as_parameter_names: {
+    description: 'Avoid types as parameter names.',
+    set: 'core',
+  },
+  avoid_types_on_closure_parameters: {
+    description: 'Avoid annotating types for function expression parameters.',
+  },
+  avoid_unnecessary_containers: {
+    description: 'Avoid unnecessary containers.',
+    set: 'flutter',
+  },
+  avoid_unused_constructor_parameters: {
+    description: 'Avoid defining unused parameters in constructors.',
+  },
+  avoid_void_async: {
+    description: 'Avoid `async` functions that return `void`.',
+  },
+  avoid_web_libraries_in_flutter: {
+    description: 'Avoid using web-only libraries outside Flutter web plugin packages.',
+    set: 'flutter',
+  },
+  await_only_futures: {
+    description: 'Await only futures.',
+    set: 'core',
+  },
+  camel_case_extensions: {
+    description: 'Name extensions using UpperCamelCase.',
+    set: 'core',
+  },
+  camel_case_types: {
+    description: 'Name types using UpperCamelCase.',
+    set: 'core',
+  },
+  cancel_subscriptions: {
+    description: 'Cancel instances of `dart:async` `StreamSubscription`.',
+  },
+  cascade_invocations: {
+    description: 'Cascade consecutive method invocations on the same reference.',
+  },
+  cast_nullable_to_non_nullable: {
+    description: "Don't cast a nullable value to a non-nullable type.",
+  },
+  close_sinks: {
+    description: 'Close instances of `dart:core` `Sink`.',
+  },
+  collection_methods_unrelated_type: {
+    description: 'Invocation of various collection methods with arguments of unrelated types.',
+    set: 'core',
+  },
+  combinators_ordering: {
+    description: 'Sort combinator names alphabetically.',
+  },
+  comment_references: {
+    description: 'Only reference in-scope identifiers in doc comments.',
+  },
+  conditional_uri_does_not_exist: {
+    description: 'Missing conditional import.',
+  },
+  constant_identifier_names: {
+    description: 'Prefer using lowerCamelCase for constant names.',
+    set: 'recommended',
+  },
+  control_flow_in_finally: {
+    description: 'Avoid control flow in `finally` blocks.',
+    set: 'recommended',
+  },
+  curly_braces_in_flow_control_structures: {
+    description: 'DO use curly braces for all flow control structures.',
+    set: 'core',
+  },
+  dangling_library_doc_comments: {
+    description: 'Attach library doc comments to library directives.',
+    set: 'core',
+  },
+  depend_on_referenced_packages: {
+    description: 'Depend on referenced packages.',
+    set: 'core',
+  },
+  deprecated_consistency: {
+    description: 'Missing deprecated annotation.',
+  },
+  deprecated_member_use_from_same_package: {
+    description: 'Avoid using deprecated elements from within the package in which they are declared.',
+  },
+  diagnostic_describe_all_properties: {
+    description: 'DO reference all public properties in debug methods.',
+  },
+  directives_ordering: {
+    description: 'Adhere to Effective Dart Guide directives sorting conventions.',
+  },
+  discarded_futures: {
+    description: "Don't invoke asynchronous functions in non-`async` blocks.",
+  },
+  do_not_use_environment: {
+    description: 'Do not use environment declared variables.',
+  },
+  empty_catches: {
+    description: 'Avoid empty catch blocks.',
+    set: 'core',
+  },
+  empty_constructor_bodies: {
+    description: 'Use `;` instead of `{}` for empty constructor bodies.',
+    set: 'recommended',
+  },
+  empty_statements: {
+    description: 'Avoid empty statements.',
+    set: 'recommended',
+  },
+  eol_at_end_of_file: {
+    description: 'Put a single newline at end of file.',
+  },
+  exhaustive_cases: {
+    description: 'Define case clauses for all constants in enum-like classes.',
+    set: 'recommended',
+  },
+  file_names: {
+    description: 'Name source files using `lowercase_with_underscores`.',
+    set: 'core',
+  },
+  flutter_style_todos: {
+    description: 'Use Flutter TODO format: `// TODO(username): message, https://URL-to-issue.`',
+  },
+  hash_and_equals: {
+    description: 'Always override `hashCode` if overriding `==`.',
+    set: 'core',
+  },
+  implementation_imports: {
+    description: "Don't import implementation files from another package.",
+    set: 'recommended',
+  },
+  implicit_call_tearoffs: {
+    description: 'Explicitly tear-off `call` methods when using an object as a Function.',
+    set: 'core',
+  },
+  implicit_reopen: {
+    description: "Don't implicitly reopen classes.",
+  },
+  invalid_case_patterns: {
+    description: 'Use case expressions that are valid in Dart 3.0.',
+  },
+  join_return_with_assignment: {
+    description: 'Join return statement with assignment when possible.',
+  },
+  leading_newlines_in_multiline_strings: {
+    description: 'Start multiline strings with a newline.',
+  },
+  library_annotations: {
+    description: 'Attach library annotations to library directives.',
+    set: 'recommended',
+  },
+  library_names: {
+    description: 'Name libraries using `lowercase_with_underscores`.',
+  },
+  library_prefixes: {
+    description: 'Use `lowercase_with_underscores` when specifying a library prefix.',
+    set: 'recommended',
+  },
+  library_private_types_in_public_api: {
+    description: 'Avoid using private types in public APIs.',
+    set: 'recommended',
+  },
+  lines_longer_than_80_chars: {
+    description: 'Avoid lines longer than 80 characters.',
+  },
+  literal_only_boolean_expressions: {
+    description: 'Boolean expression composed only with literals.',
+  },
+  matching_super_parameters: {
+    description: 'Use matching super parameter names.',
+  },
+  missing_whitespace_between_adjacent_strings: {
+    description: 'Missing whitespace between adjacent strings.',
+  },
+  no_adjacent_strings_in_list: {
+    description: "Don't use adjacent strings in list.",
+  },
+  no_default_cases: {
+    description: 'No default cases.',
+  },
+  no_duplicate_case_values: {
+    description: "Don't use more than one case with same value.",
+    set: 'core',
+  },
+  no_leading_underscores_for_library_prefixes: {
+    description: 'Avoid leading underscores for library prefixes.',
+    set: 'recommended',
+  },
+  no_leading_underscores_for_local_identifiers: {
+    description: 'Avoid leading underscores for local identifiers.',
+    set: 'recommended',
+  },
+  no_literal_bool_comparisons: {
+    description: "Don't compare boolean expressions to boolean literals.",
+  },
+  no_logic_in_create_state: {
+    description: "Don't put any logic in `createState`.",
+    set: 'flutter',
+  },
+  no_runtimeType_toString: {
+    description: 'Avoid calling `toString()` on `runtimeType`.',
+  },
+  no_self_assignments: {
+    description: "Don't assign a variable to itself.",
+  },
+  no_wildcard_variable_uses: {
+    description: "Don't use wildcard parameters or variables.",
+    set: 'core',
+  },
+  non_constant_identifier_names: {
+    description: 'Name non-constant identifiers using lowerCamelCase.',
+    set: 'core',
+  },
+  noop_primitive_operations: {
+    description: 'Noop primitive operations.',
+  },
+  null_check_on_nullable_type_parameter: {
+    description: "Don't use `null` check on a potentially nullable type parameter.",
+    set: 'core',
+  },
+  null_closures: {
+    description: 'Do not pass `null` as an argument where a closure is expected.',
+    set: 'recommended',
+  },
+  omit_local_variable_types: {
+    description: 'Omit type annotations for local variables.',
+  },
+  one_member_abstracts: {
+    description: 'Avoid defining a one-member abstract class when a simple function will do.',
+  },
+  only_throw_errors: {
+    description: 'Only throw instances of classes extending either Exception or Error.',
+  },
+  overridden_fields: {
+    description: "Don't override fields.",
+    set: 'recommended',
+  },
+  package_names: {
+    description: 'Use `lowercase_with_underscores` for package names.',
+    set: 'recommended',
+  },
+  package_prefixed_library_names: {
+    description: 'Prefix library names with the package name and a dot-separated path.',
+    set: 'core',
+  },
+  parameter_assignments: {
+    description: "Don't reassign references to parameters of functions or methods.",
+  },
+  prefer_adjacent_string_concatenation: {
+    description: 'Use adjacent strings to concatenate string literals.',
+    set: 'recommended',
+  },
+  prefer_asserts_in_initializer_lists: {
+    description: 'Prefer putting asserts in initializer lists.',
+  },
+  prefer_collection_literals: {
+    description: 'Use collection literals when possible.',
+    set: 'recommended',
+  },
+  prefer_conditional_assignment: {
+    description: 'Prefer using `??=` over testing for `null`.',
+    set: 'recommended',
+  },
+  prefer_const_constructors: {
+    description: 'Prefer `const` with constant constructors.',
+    set: 'flutter',
+  },
+  prefer_const_constructors_in_immutables: {
+    description: 'Prefer declaring `const` constructors on `@immutable` classes.',
+    set: 'flutter',
+  },
+  prefer_const_declarations: {
+    description: 'Prefer `const` over `final` for declarations.',
+    set: 'flutter',
+  },
+  prefer_const_literals_to_create_immutables: {
+    description: 'Prefer const literals as parameters of constructors on @immutable classes.',
+    set: 'flutter',
+  },
+  prefer_constructors_over_static_methods: {
+    description: 'Prefer defining constructors instead of static methods to create instances.',
+  },
+  prefer_contains: {
+    description: 'Use `contains` for `List` and `String` instances.',
+    set: 'recommended',
+  },
+  prefer_double_quotes: {
+    description: "Prefer double quotes where they won't require escape sequences.",
+  },
+  prefer_expression_function_bodies: {
+    description: 'Use => for short members whose body is a single return statement.',
+  },
+  prefer_final_fields: {
+    description: 'Private field could be `final`.',
+    set: 'recommended',
+  },
+  prefer_final_in_for_each: {
+    description: 'Prefer final in for-each loop variable if reference is not reassigned.',
+  },
+  prefer_final_locals: {
+    description: 'Prefer final for variable declarations if they are not reassigned.',
+  },
+  prefer_final_parameters: {
+    description: 'Prefer final for parameter declarations if they are not reassigned.',
+  },
+  prefer_for_elements_to_map_fromIterable: {
+    description: "Prefer 'for' elements when building maps from iterables.",
+    set: 'recommended',
+  },
+  prefer_foreach: {
+    description: 'Use `forEach` to only apply a function to all the elements.',
+  },
+  prefer_function_declarations_over_variables: {
+    description: 'Use a function declaration to bind a function to a name.',
+    set: 'recommended',
+  },
+  prefer_generic_function_type_aliases: {
+    description: 'Prefer generic function type aliases.',
+    set: 'core',
+  },
+  prefer_if_elements_to_conditional_expressions: {
+    description: 'Prefer if elements to conditional expressions where possible.',
+  },
+  prefer_if_null_operators: {
+    description: 'Prefer using `??` operators.',
+    set: 'recommended',
+  },
+  prefer_initializing_formals: {
+    description: 'Use initializing formals when possible.',
+    set: 'recommended',
+  },
+  prefer_inlined_adds: {
+    description: 'Inline list item declarations where possible.',
+    set: 'recommended',
+  },
+  prefer_int_literals: {
+    description: 'Prefer int literals over double literals.',
+  },
+  prefer_interpolation_to_compose_strings: {
+    description: 'Use interpolation to compose strings and values.',
+    set: 'recommended',
+  },
+  prefer_is_empty: {
+    description: 'Use `isEmpty` for `Iterable`s and `Map`s.',
+    set: 'core',
+  },
+  prefer_is_not_empty: {
+    description: 'Use `isNotEmpty` for `Iterable`s and `Map`s.',
+    set: 'core',
+  },
+  prefer_is_not_operator: {
+    description: 'Prefer is! operator.',
+    set: 'recommended',
+  },
+  prefer_iterable_whereType: {
+    description: 'Prefer to use `whereType` on iterable.',
+    set: 'core',
+  },
+  prefer_mixin: {
+    description: 'Prefer using mixins.',
+  },
+  prefer_null_aware_method_calls: {
+    description: 'Prefer `null`-aware method calls.',
+  },
+  prefer_null_aware_operators: {
+    description: 'Prefer using `null`-aware operators.',
+    set: 'recommended',
+  },
+  prefer_relative_imports: {
+    description: 'Prefer relative imports for files in `lib/`.',
+  },
+  prefer_single_quotes: {
+    description: "Only use double quotes for strings containing single quotes.",
+  },
+  prefer_spread_collections: {
+    description: 'Use spread collections when possible.',
+    set: 'recommended',
+  },
+  prefer_typing_uninitialized_variables: {
+    description: 'Prefer typing uninitialized variables and fields.',
+    set: 'core',
+  },
+  provide_deprecation_message: {
+    description: 'Provide a deprecation message, via `@Deprecated("message")`.',
+    set: 'core',
+  },
+  public_member_api_docs: {
+    description: 'Document all public members.',
+  },
+  recursive_getters: {
+    description: 'Property getter recursively returns itself.',
+    set: 'recommended',
+  },
+  require_trailing_commas: {
+    description: 'Use trailing commas for all parameter lists and argument lists.',
+  },
+  secure_pubspec_urls: {
+    description: 'Use secure urls in `pubspec.yaml`.',
+    set: 'core',
+  },
+  sized_box_for_whitespace: {
+    description: '`SizedBox` for whitespace.',
+    set: 'flutter',
+  },
+  sized_box_shrink_expand: {
+    description: 'Use SizedBox shrink and expand named constructors.',
+  },
+  slash_for_doc_comments: {
+    description: 'Prefer using `///` for doc comments.',
+    set: 'recommended',
+  },
+  sort_child_properties_last: {
+    description: 'Sort child properties last in widget instance creations.',
+    set: 'flutter',
+  },
+  sort_constructors_first: {
+    description: 'Sort constructor declarations before other members.',
+  },
+  sort_pub_dependencies: {
+    description: 'Sort pub dependencies alphabetically.',
+  },
+  sort_unnamed_constructors_first: {
+    description: 'Sort unnamed constructor declarations first.',
+  },
+  test_types_in_equals: {
+    description: 'Test type of argument in `operator ==(Object other)`.',
+  },
+  throw_in_finally: {
+    description: 'Avoid `throw` in `finally` block.',
+  },
+  tighten_type_of_initializing_formals: {
+    description: 'Tighten type of initializing formal.',
+  },
+  type_annotate_public_apis: {
+    description: 'Type annotate public APIs.',
+  },
+  type_init_formals: {
+    description: "Don't type annotate initializing formals.",
+    set: 'recommended',
+  },
+  type_literal_in_constant_pattern: {
+    description: "Don't use constant patterns with type literals.",
+    set: 'core',
+  },
+  unawaited_futures: {
+    description: '`Future` results in `async` function bodies must be `await`ed or marked `unawaited` using `dart:async`.',
+  },
+  unintended_html_in_doc_comment: {
+    description: 'Use of angle brackets in a doc comment is treated as HTML by Markdown.',
+    set: 'core',
+  },
+  unnecessary_await_in_return: {
+    description: 'Unnecessary `await` keyword in return.',
+  },
+  unnecessary_brace_in_string_interps: {
+    description: 'Avoid using braces in interpolation when not needed.',
+    set: 'recommended',
+  },
+  unnecessary_breaks: {
+    description: "Don't use explicit `break`s when a break is implied.",
+  },
+  unnecessary_const: {
+    description: 'Avoid `const` keyword.',
+    set: 'recommended',
+  },
+  unnecessary_constructor_name: {
+    description: 'Unnecessary `.new` constructor name.',
+    set: 'recommended',
+  },
+  unnecessary_final: {
+    description: "Don't use `final` for local variables.",
+  },
+  unnecessary_getters_setters: {
+    description: 'Avoid wrapping fields in getters and setters just to be "safe".',
+    set: 'recommended',
+  },
+  unnecessary_lambdas: {
+    description: "Don't create a lambda when a tear-off will do.",
+  },
+  unnecessary_late: {
+    description: "Don't specify the `late` modifier when it is not needed.",
+    set: 'recommended',
+  },
+  unnecessary_library_directive: {
+    description: 'Avoid library directives unless they have documentation comments or annotations.',
+  },
+  unnecessary_new: {
+    description: 'Unnecessary new keyword.',
+    set: 'recommended',
+  },
+  unnecessary_null_aware_assignments: {
+    description: 'Avoid `null` in `null`-aware assignment.',
+    set: 'recommended',
+  },
+  unnecessary_null_aware_operator_on_extension_on_nullable: {
+    description: 'Unnecessary null aware operator on extension on a nullable type.',
+  },
+  unnecessary_null_checks: {
+    description: 'Unnecessary `null` checks.',
+  },
+  unnecessary_null_in_if_null_operators: {
+    description: 'Avoid using `null` in `??` operators.',
+    set: 'recommended',
+  },
+  unnecessary_nullable_for_final_variable_declarations: {
+    description: 'Use a non-nullable type for a final variable initialized with a non-nullable value.',
+    set: 'recommended',
+  },
+  unnecessary_overrides: {
+    description: "Don't override a method to do a super method invocation with the same parameters.",
+    set: 'core',
+  },
+  unnecessary_parenthesis: {
+    description: 'Unnecessary parentheses can be removed.',
+  },
+  unnecessary_raw_strings: {
+    description: 'Unnecessary raw string.',
+  },
+  unnecessary_statements: {
+    description: 'Avoid using unnecessary statements.',
+  },
+  unnecessary_string_escapes: {
+    description: 'Remove unnecessary backslashes in strings.',
+    set: 'recommended',
+  },
+  unnecessary_string_interpolations: {
+    description: 'Unnecessary string interpolation.',
+    set: 'recommended',
+  },
+  unnecessary_this: {
+    description: "Don't access members with `this` unless avoiding shadowing.",
+    set: 'recommended',
+  },
+  unnecessary_to_list_in_spreads: {
+    description: 'Unnecessary `toList()` in spreads.',
+    set: 'recommended',
+  },
+  unreachable_from_main: {
+    description: 'Unreachable top-level members in executable libraries.',
+  },
+  unrelated_type_equality_checks: {
+    description: 'Equality operator `==` invocation with references of unrelated types.',
+    set: 'core',
+  },
+  use_build_context_synchronously: {
+    description: 'Do not use `BuildContext` across asynchronous gaps.',
+    set: 'flutter',
+  },
+  use_colored_box: {
+    description: 'Use `ColoredBox`.',
+  },
+  use_decorated_box: {
+    description: 'Use `DecoratedBox`.',
+  },
+  use_enums: {
+    description: 'Use enums rather than classes that behave like enums.',
+  },
+  use_full_hex_values_for_flutter_colors: {
+    description: 'Prefer an 8-digit hexadecimal integer (for example, 0xFFFFFFFF) to instantiate a Color.',
+    set: 'flutter',
+  },
+  use_function_type_syntax_for_parameters: {
+    description: 'Use generic function type syntax for parameters.',
+    set: 'recommended',
+  },
+  use_if_null_to_convert_nulls_to_bools: {
+    description: 'Use `??` operators to convert `null`s to `bool`s.',
+  },
+  use_is_even_rather_than_modulo: {
+    description: 'Prefer intValue.isOdd/isEven instead of checking the result of % 2.',
+  },
+  use_key_in_widget_constructors: {
+    description: 'Use key in widget constructors.',
+    set: 'flutter',
+  },
+  use_late_for_private_fields_and_variables: {
+    description: 'Use late for private members with a non-nullable type.',
+  },
+  use_named_constants: {
+    description: 'Use predefined named constants.',
+  },
+  use_raw_strings: {
+    description: 'Use raw string to avoid escapes.',
+  },
+  use_rethrow_when_possible: {
+    description: 'Use rethrow to rethrow a caught exception.',
+    set: 'recommended',
+  },
+  use_setters_to_change_properties: {
+    description: 'Use a setter for operations that conceptually change a property.',
+  },
+  use_string_buffers: {
+    description: 'Use string buffers to compose strings.',
+  },
+  use_string_in_part_of_directives: {
+    description: 'Use string in part of directives.',
+    set: 'core',
+  },
+  use_super_parameters: {
+    description: 'Use super-initializer parameters where possible.',
+    set: 'recommended',
+  },
+  use_test_throws_matchers: {
+    description: 'Use throwsA matcher instead of fail().',
+  },
+  use_to_and_as_if_applicable: {
+    description: 'Start the name of the method with to/_to or as/_as if applicable.',
+  },
+  valid_regexps: {
+    description: 'Use valid regular expression syntax.',
+    set: 'core',
+  },
+  void_checks: {
+    description: "Don't assign to `void`.",
+    set: 'core',
+  },
+};
+
+/** Rules enabled by one of the standard rule sets */
+export function getRuleSetRules(set: LintRuleSet): string[] {
+  const limit = SET_ORDER.indexOf(set);
+  return Object.keys(LINT_RULES).filter((name) => {
+    const ruleSet = LINT_RULES[name].set;
+    return ruleSet !== undefined && SET_ORDER.indexOf(ruleSet) <= limit;
+  });
+}
+
+/**
+ * Returns the dart.dev page of a lint rule or, for any other code, of the
+ * diagnostic.
+ */
+export function getRuleDocumentationUrl(code: string, isLint: boolean): string {
+  return isLint
+    ? `https://dart.dev/lints/${code}`
+    : `https://dart.dev/diagnostics/${code}`;
+}
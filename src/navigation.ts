@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { AnalysisIssue } from './analysisIssue';
+
+export async function openIssue(issue: AnalysisIssue | undefined) {
+  if (!issue) {
+    return;
+  }
+  await openLocation(
+    path.join(issue.packageRoot, issue.file),
+    issue.line,
+    issue.column
+  );
+}
+
+export async function openLocation(file: string, line: number, column: number) {
+  const uri = vscode.Uri.file(file);
+  const document = await vscode.workspace.openTextDocument(uri);
+  const editor = await vscode.window.showTextDocument(document);
+  const position = new vscode.Position(line - 1, column - 1 || 0);
+  editor.selection = new vscode.Selection(position, position);
+  editor.revealRange(
+    new vscode.Range(position, position),
+    vscode.TextEditorRevealType.InCenter
+  );
+}
@@ -0,0 +1,158 @@
+import { AnalysisIssue } from './analysisIssue';
+import { ResultSource } from './analysisService';
+import { BaselineComparison } from './baseline';
+import { IssueFilters, IssueGroup } from './filters';
+import { HistoryEntry, RunComparison } from './history';
+import { TriageEntry, describeTriage } from './triage';
+
+/**
+ * Results as the panel's script renders them. The extension fills this from
+ * the analysis service; the command line tool from its own run.
+ */
+export interface PanelResults {
+  issues: AnalysisIssue[];
+  visible: number[];
+  groups: IssueGroup[];
+  filters: IssueFilters;
+  comparison?: BaselineComparison;
+  triage?: Map<number, TriageEntry>;
+  triageUser?: string;
+  /** Index of the highlighted issue, `-1` for none */
+  active?: number;
+  source?: ResultSource;
+  /** Labels of the files and folders the results and latest run cover */
+  scope?: { paths?: string[]; lastRun?: string[] };
+  gitScopeError?: string;
+  history?: HistoryEntry[];
+  sinceLastRun?: RunComparison;
+}
+
+/**
+ * Builds the `update` message for `media/panel.js`. The issue list itself is
+ * only included with `sendIssues`, since the script keeps the last one.
+ */
+export function createUpdateMessage(
+  results: PanelResults,
+  sendIssues = true
+) {
+  const { issues, comparison, triage = new Map(), sinceLastRun } = results;
+  const summary = { error: 0, warning: 0, info: 0, hint: 0 };
+  issues.forEach((issue) => summary[issue.severity]++);
+
+  return {
+    command: 'update',
+    issues: sendIssues ? issues : undefined,
+    groups: results.groups,
+    filters: results.filters,
+    active: results.active ?? -1,
+    summary,
+    visibleCount: results.visible.length,
+    source: results.source,
+    scope: results.scope ?? {},
+    gitScopeError: results.gitScopeError,
+    baseline: comparison && {
+      baselined: Array.from(comparison.baselined),
+      newCount: comparison.newCount,
+      fixedCount: comparison.fixedCount,
+    },
+    triage: {
+      user: results.triageUser,
+      entries: Array.from(triage, ([index, entry]) => ({
+        index,
+        label: describeTriage(entry),
+        title: describeTriageDetails(entry),
+      })),
+    },
+    history: {
+      // Per-code counts are only kept for reports, not charted
+      entries: (results.history ?? []).map(({ codes, ...entry }) => entry),
+      sinceLastRun: sinceLastRun && {
+        previous: sinceLastRun.previous.timestamp,
+        introduced: sinceLastRun.introduced,
+        resolved: sinceLastRun.resolved,
+      },
+    },
+  };
+}
+
+/**
+ * The panel's page. `head` adds the stylesheet and any Content Security
+ * Policy, `scripts` the panel script, so that the webview can load both from
+ * the extension while the HTML report inlines them.
+ */
+export function getPanelHtml(head: string, scripts: string): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+${head}
+    <title>Dart Analysis</title>
+</head>
+<body>
+    <div class="header">
+        <div class="summary" id="summary"></div>
+        <div class="header-actions">
+            <button class="toolbar-btn" data-action="showRules" title="Rules and analyzer settings from analysis_options.yaml">Rules</button>
+            <button class="refresh-btn" id="refresh">Analyze</button>
+        </div>
+    </div>
+    <div class="toolbar">
+        <input id="search" type="search" placeholder="Search message, code or file">
+        <input id="include" type="text" placeholder="Include, e.g. lib/**">
+        <input id="exclude" type="text" placeholder="Exclude, e.g. **/*.g.dart, **/*.freezed.dart">
+        <select id="groupBy">
+            <option value="file">Group by file</option>
+            <option value="code">Group by lint code</option>
+            <option value="severity">Group by severity</option>
+            <option value="directory">Group by directory</option>
+        </select>
+        <select id="scope">
+            <option value="all">All files</option>
+            <option value="workingTree">Uncommitted changes</option>
+            <option value="branch">Changed vs branch</option>
+            <option value="lines">Changed lines only</option>
+        </select>
+        <button id="baseBranch" class="toolbar-btn" data-action="chooseBaseBranch" hidden></button>
+    </div>
+    <div class="baseline" id="baseline" hidden>
+        <span id="baseline-counts"></span>
+        <label><input id="newOnly" type="checkbox"> New issues only</label>
+    </div>
+    <div class="triage" id="triage" hidden>
+        <span id="triage-counts"></span>
+        <label><input id="hideTriaged" type="checkbox"> Hide triaged</label>
+        <label id="assignedToMe-label"><input id="assignedToMe" type="checkbox"> Assigned to me</label>
+    </div>
+    <details class="history" id="history" hidden>
+        <summary id="history-summary"></summary>
+        <div id="trend" class="trend"></div>
+        <div id="run-diff" class="run-diff"></div>
+    </details>
+    <div class="restored" id="restored" hidden></div>
+    <div class="source" id="source"></div>
+    <div class="filter-status" id="filter-status"></div>
+    <div id="scroller">
+        <div id="list"></div>
+        <div class="empty-state" id="empty" hidden></div>
+    </div>
+    <section class="comparison" id="comparison" hidden></section>
+    <aside class="side-pane" id="side-pane" hidden></aside>
+${scripts}
+</body>
+</html>`;
+}
+
+// Tooltip of an issue's triage badge
+function describeTriageDetails(entry: TriageEntry): string {
+  return [
+    entry.reason && `Reason: ${entry.reason}`,
+    entry.snoozedUntil && `Snoozed until ${entry.snoozedUntil}`,
+    entry.updatedAt &&
+      `Updated ${new Date(entry.updatedAt).toLocaleString()}${
+        entry.updatedBy ? ` by ${entry.updatedBy}` : ''
+      }`,
+  ]
+    .filter(Boolean)
+    .join('\n');
+}
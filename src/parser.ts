@@ -0,0 +1,167 @@
+import * as path from 'path';
+import { ContextMessage, RawIssue, mapSeverity } from './analysisIssue';
+
+/**
+ * Parses analyzer output in whichever format it is in: JSON
+ * (`--format=json`), machine (`--format=machine`) or the human readable text
+ * of `dart analyze` / `flutter analyze`.
+ */
+export function parseAnalyzerOutput(output: string, cwd: string): RawIssue[] {
+  const trimmed = output.trim();
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    return parseJsonOutput(output, cwd);
+  }
+  if (output.split('\n').some((line) => MACHINE_LINE.test(line))) {
+    return parseMachineOutput(output, cwd);
+  }
+  return parseTextOutput(output, cwd);
+}
+
+/**
+ * Parses `dart analyze --format=json` output:
+ *
+ *     {"version":1,"diagnostics":[{"code":"unused_import","severity":"WARNING",
+ *       "type":"STATIC_WARNING","location":{"file":"/abs/lib/main.dart",
+ *       "range":{"start":{"offset":7,"line":1,"column":8},"end":{...}}},
+ *       "problemMessage":"...","correctionMessage":"...",
+ *       "contextMessages":[...],"documentation":"https://dart.dev/..."}]}
+ *
+ * File paths are resolved against `cwd`. Throws if the output is not JSON.
+ */
+export function parseJsonOutput(output: string, cwd: string): RawIssue[] {
+  const jsonOutput = JSON.parse(output);
+  const diagnostics: any[] = Array.isArray(jsonOutput)
+    ? jsonOutput
+    : jsonOutput.diagnostics ?? [];
+  return diagnostics.map((diagnostic) => parseJsonDiagnostic(diagnostic, cwd));
+}
+
+function parseJsonDiagnostic(diagnostic: any, cwd: string): RawIssue {
+  const start = diagnostic.location?.range?.start;
+  const end = diagnostic.location?.range?.end;
+
+  return {
+    severity: mapSeverity(diagnostic.severity ?? ''),
+    code: diagnostic.code ?? 'unknown',
+    message: diagnostic.problemMessage ?? diagnostic.message ?? '',
+    file: path.resolve(cwd, diagnostic.location?.file ?? ''),
+    line: start?.line ?? 1,
+    column: start?.column ?? 1,
+    endLine: end?.line,
+    endColumn: end?.column,
+    type: diagnostic.type,
+    correctionMessage: diagnostic.correctionMessage,
+    documentation: diagnostic.documentation,
+    contextMessages: (diagnostic.contextMessages ?? []).map(
+      (context: any): ContextMessage => ({
+        message: context.message ?? '',
+        file: path.resolve(cwd, context.location?.file ?? ''),
+        line: context.location?.range?.start?.line ?? 1,
+        column: context.location?.range?.start?.column ?? 1,
+      })
+    ),
+  };
+}
+
+const MACHINE_LINE = /^(ERROR|WARNING|INFO)\|/;
+
+/**
+ * Parses `dart analyze --format=machine` output, one issue per line:
+ *
+ *     SEVERITY|TYPE|ERROR_CODE|FILE_PATH|LINE|COLUMN|LENGTH|ERROR_MESSAGE
+ *
+ * Pipes, backslashes and newlines inside fields are backslash-escaped.
+ */
+export function parseMachineOutput(output: string, cwd: string): RawIssue[] {
+  const issues: RawIssue[] = [];
+
+  for (const line of output.split('\n')) {
+    if (!MACHINE_LINE.test(line)) {
+      continue;
+    }
+    const fields = splitMachineLine(line.replace(/\r$/, ''));
+    if (fields.length < 8) {
+      continue;
+    }
+
+    const [severity, type, code, file, lineNumber, column, , message] = fields;
+    issues.push({
+      severity: mapSeverity(severity),
+      code: code.toLowerCase(),
+      message,
+      file: path.resolve(cwd, file),
+      line: parseInt(lineNumber, 10),
+      column: parseInt(column, 10),
+      type,
+    });
+  }
+
+  return issues;
+}
+
+function splitMachineLine(line: string): string[] {
+  const fields: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '\\' && i + 1 < line.length) {
+      const next = line[++i];
+      current += next === 'n' ? '\n' : next === 'r' ? '\r' : next;
+    } else if (char === '|') {
+      fields.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current);
+
+  return fields;
+}
+
+// `  error - lib/main.dart:3:8 - Message. Correction. - uri_does_not_exist`
+const DART_TEXT_LINE =
+  /^\s*(error|warning|info|hint)\s+-\s+(.+?):(\d+):(\d+)\s+-\s+(.+)\s+-\s+([a-z0-9_]+)\s*$/;
+
+// `   info • Message • lib/main.dart:3:8 • unused_import`
+const FLUTTER_TEXT_LINE =
+  /^\s*(error|warning|info|hint)\s+•\s+(.+?)\s+•\s+(.+?):(\d+):(\d+)\s+•\s+([a-z0-9_]+)\s*$/;
+
+/**
+ * Parses the human readable output of `dart analyze` and `flutter analyze`.
+ * Lines that are not issues, such as the summary, are ignored. File paths
+ * are resolved against `cwd`.
+ */
+export function parseTextOutput(output: string, cwd: string): RawIssue[] {
+  const issues: RawIssue[] = [];
+
+  for (const line of output.split('\n')) {
+    const dartMatch = line.match(DART_TEXT_LINE);
+    if (dartMatch) {
+      issues.push({
+        severity: mapSeverity(dartMatch[1]),
+        code: dartMatch[6],
+        message: dartMatch[5].trim(),
+        file: path.resolve(cwd, dartMatch[2]),
+        line: parseInt(dartMatch[3], 10),
+        column: parseInt(dartMatch[4], 10),
+      });
+      continue;
+    }
+
+    const flutterMatch = line.match(FLUTTER_TEXT_LINE);
+    if (flutterMatch) {
+      issues.push({
+        severity: mapSeverity(flutterMatch[1]),
+        code: flutterMatch[6],
+        message: flutterMatch[2].trim(),
+        file: path.resolve(cwd, flutterMatch[3]),
+        line: parseInt(flutterMatch[4], 10),
+        column: parseInt(flutterMatch[5], 10),
+      });
+    }
+  }
+
+  return issues;
+}
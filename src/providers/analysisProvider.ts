@@ -0,0 +1,74 @@
+import * as vscode from 'vscode';
+import { RawIssue } from '../analysisIssue';
+
+/**
+ * A source of analysis results. Implementations throw when they cannot
+ * produce results so that callers can decide whether to fall back.
+ */
+export interface AnalysisProvider {
+  /** Human readable name shown in the panel, e.g. `dart analyze --format=json` */
+  readonly label: string;
+
+  /**
+   * Analyzes the given package roots and returns issues with absolute paths.
+   * Rejects with the signal's reason once `signal` is aborted.
+   *
+   * `paths` limits the analysis to absolute files and folders within the
+   * roots. Providers that cannot limit it analyze the whole roots, so callers
+   * must keep only the issues within `paths` themselves.
+   */
+  analyze(
+    roots: string[],
+    signal?: AbortSignal,
+    paths?: string[]
+  ): Promise<RawIssue[]>;
+
+  /** Fires when a streaming provider has new results between `analyze` calls */
+  readonly onDidChangeResults?: vscode.Event<RawIssue[]>;
+
+  dispose?(): void;
+}
+
+export interface ProviderFallback {
+  provider: string;
+  reason: string;
+}
+
+export interface AnalysisOutcome {
+  issues: RawIssue[];
+  provider: AnalysisProvider;
+  fallbacks: ProviderFallback[];
+}
+
+/**
+ * Runs each provider in turn until one succeeds, recording why every earlier
+ * provider was skipped. Rethrows the last error if all of them fail. A
+ * cancelled run does not fall back.
+ */
+export async function analyzeWithFallback(
+  providers: AnalysisProvider[],
+  roots: string[],
+  signal?: AbortSignal,
+  paths?: string[]
+): Promise<AnalysisOutcome> {
+  const fallbacks: ProviderFallback[] = [];
+  let lastError: unknown;
+
+  for (const provider of providers) {
+    try {
+      const issues = await provider.analyze(roots, signal, paths);
+      return { issues, provider, fallbacks };
+    } catch (error) {
+      if (signal?.aborted) {
+        throw error;
+      }
+      lastError = error;
+      fallbacks.push({
+        provider: provider.label,
+        reason: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  throw lastError ?? new Error('No analysis provider configured');
+}
@@ -0,0 +1,110 @@
+import * as vscode from 'vscode';
+import { RawIssue } from '../analysisIssue';
+import {
+  AnalysisServerClient,
+  AnalysisServerOptions,
+  defaultAnalysisServerOptions,
+} from '../analysisServer';
+import { AnalysisProvider } from './analysisProvider';
+
+/**
+ * Keeps a Dart analysis server running between refreshes. `analyze` points
+ * the server at the package roots and returns what it has reported so far;
+ * later `analysis.errors` notifications are delivered through
+ * `onDidChangeResults`.
+ */
+export class AnalysisServerProvider implements AnalysisProvider {
+  public readonly label = 'Dart analysis server';
+
+  private _client: AnalysisServerClient | undefined;
+  private _updateTimer: NodeJS.Timeout | undefined;
+
+  private readonly _onDidChangeResults = new vscode.EventEmitter<RawIssue[]>();
+  public readonly onDidChangeResults = this._onDidChangeResults.event;
+
+  constructor(
+    private readonly _options: AnalysisServerOptions = defaultAnalysisServerOptions
+  ) {}
+
+  public async analyze(
+    roots: string[],
+    signal?: AbortSignal
+  ): Promise<RawIssue[]> {
+    const client = await this._ensureStarted();
+    // Cancelling only stops waiting; the server keeps analyzing and its
+    // results still stream in
+    await untilAborted(client.analyzeRoots(roots), signal);
+    return client.errors;
+  }
+
+  public dispose() {
+    this._stop();
+    this._onDidChangeResults.dispose();
+  }
+
+  private async _ensureStarted(): Promise<AnalysisServerClient> {
+    if (this._client) {
+      return this._client;
+    }
+
+    const client = new AnalysisServerClient(this._options);
+    this._client = client;
+    client.onDidChangeErrors(() => this._scheduleUpdate());
+    client.onDidExit(() => {
+      if (this._client === client) {
+        this._stop();
+      }
+    });
+    try {
+      await client.start();
+    } catch (error) {
+      this._stop();
+      throw error;
+    }
+    return client;
+  }
+
+  private _scheduleUpdate() {
+    // Notifications arrive one file at a time, so batch them into one update
+    if (this._updateTimer) {
+      return;
+    }
+    this._updateTimer = setTimeout(() => {
+      this._updateTimer = undefined;
+      if (this._client) {
+        this._onDidChangeResults.fire(this._client.errors);
+      }
+    }, 250);
+  }
+
+  private _stop() {
+    if (this._updateTimer) {
+      clearTimeout(this._updateTimer);
+      this._updateTimer = undefined;
+    }
+    this._client?.dispose();
+    this._client = undefined;
+  }
+}
+
+// Settles like `promise` unless `signal` aborts first, and stops listening
+// for the abort either way
+function untilAborted<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  return new Promise((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
@@ -0,0 +1,359 @@
+import { ChildProcess, spawn } from 'child_process';
+import * as path from 'path';
+import { RawIssue } from '../analysisIssue';
+import {
+  parseJsonOutput,
+  parseMachineOutput,
+  parseTextOutput,
+} from '../parser';
+import { AnalysisProvider } from './analysisProvider';
+
+export type Analyzer = 'dart' | 'flutter';
+
+export interface CliOptions {
+  /** Command that runs the analyzer, e.g. `flutter` or `fvm dart` */
+  executable: string;
+  /** Arguments appended after `analyze` and the format option */
+  extraArgs: string[];
+  /** Largest output accepted, in bytes */
+  maxBuffer: number;
+}
+
+export const DEFAULT_MAX_BUFFER = 10 * 1024 * 1024; // 10MB
+
+export interface RunCommandOptions {
+  /** Largest output accepted, in bytes */
+  maxBuffer?: number;
+  /** Kills the command, including any processes it started, when aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs a shell command and returns its stdout. The analyzers exit with a
+ * non-zero code whenever they report issues, so that alone is not treated as
+ * a failure; only a command that produced no output at all is.
+ */
+export function runCommand(
+  command: string,
+  cwd: string,
+  options: RunCommandOptions = {}
+): Promise<string> {
+  const { maxBuffer = DEFAULT_MAX_BUFFER, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    // `flutter` is a script that starts the Dart VM, so the command gets its
+    // own process group that can be killed as a whole
+    const child = spawn(command, {
+      cwd,
+      shell: true,
+      detached: process.platform !== 'win32',
+    });
+    let stdout = '';
+    let stderr = '';
+    let settled = false;
+
+    const onAbort = () => settle(signal?.reason);
+    const settle = (error?: unknown) => {
+      if (settled) {
+        return;
+      }
+      settled = true;
+      signal?.removeEventListener('abort', onAbort);
+      if (error) {
+        killProcessTree(child);
+        reject(error);
+      } else {
+        resolve(stdout);
+      }
+    };
+    signal?.addEventListener('abort', onAbort);
+
+    child.stdout.setEncoding('utf8');
+    child.stdout.on('data', (chunk: string) => {
+      stdout += chunk;
+      if (stdout.length > maxBuffer) {
+        settle(
+          new Error(
+            `\`${command}\` printed more than ${Math.round(
+              maxBuffer / 1024 / 1024
+            )}MB of output`
+          )
+        );
+      }
+    });
+    child.stderr.setEncoding('utf8');
+    child.stderr.on('data', (chunk: string) => {
+      if (stderr.length < maxBuffer) {
+        stderr += chunk;
+      }
+    });
+    child.on('error', (error) =>
+      settle(new Error(`\`${command}\` failed: ${error.message}`))
+    );
+    child.on('close', (code) => {
+      if (code !== 0 && !stdout.trim()) {
+        settle(
+          new Error(
+            `\`${command}\` failed: ${
+              stderr.trim() || `exited with code ${code}`
+            }`
+          )
+        );
+        return;
+      }
+      settle();
+    });
+  });
+}
+
+/**
+ * Quotes an argument for the shell that `runCommand` starts, `cmd.exe` on
+ * Windows and `sh` elsewhere, unless it only has safe characters.
+ */
+export function quoteArg(arg: string, platform = process.platform): string {
+  if (platform !== 'win32') {
+    return !/^[\w@%+=:,./-]+$/.test(arg)
+      ? `"${arg.replace(/(["$`\\])/g, '\\$1')}"`
+      : arg;
+  }
+  if (/^[\w@+=:,./\\-]+$/.test(arg)) {
+    return arg;
+  }
+  // Quoted for the program's own argument parsing, where backslashes only
+  // escape quotes, then escaped with `^` so that cmd.exe expands no `%VAR%`
+  // and reads no `&`, `|` or `>` on the way
+  const quoted = `"${arg
+    .replace(/(\\*)"/g, '$1$1\\"')
+    .replace(/(\\*)$/, '$1$1')}"`;
+  return quoted.replace(/[()%!^"<>&|]/g, '^$&');
+}
+
+/** Where to find `dart` and `flutter`, see `ExtensionConfig` */
+export interface ToolOptions {
+  /** SDK root containing `bin/dart` and `bin/flutter`; empty uses PATH */
+  sdkPath: string;
+  /** Wrapper put in front of the tool, e.g. `fvm` or `puro` */
+  commandPrefix: string;
+}
+
+/**
+ * Returns the shell command that runs `dart` or `flutter`, taking the SDK
+ * path and command prefix into account, e.g. `fvm flutter`.
+ */
+export function getToolCommand(options: ToolOptions, tool: Analyzer): string {
+  const prefix = getCommandPrefix(options);
+  const toolPath = getToolPath(options, tool);
+  return [
+    ...prefix,
+    prefix.length > 0 ? quoteArg(toolPath) : quoteProgram(toolPath),
+  ].join(' ');
+}
+
+/**
+ * cmd.exe finds the program of a command by its plain quotes only; SDK paths
+ * have no quotes or `%` to escape.
+ */
+function quoteProgram(program: string): string {
+  return process.platform === 'win32' && !/^[\w@+=:,./\\-]+$/.test(program)
+    ? `"${program}"`
+    : quoteArg(program);
+}
+
+/**
+ * Splits the `dart` command into an executable and its arguments, for
+ * spawning it directly without a shell.
+ */
+export function getDartExecutable(options: ToolOptions): {
+  command: string;
+  args: string[];
+} {
+  const [command, ...args] = [
+    ...getCommandPrefix(options),
+    getToolPath(options, 'dart'),
+  ];
+  return { command, args };
+}
+
+function getCommandPrefix(options: ToolOptions): string[] {
+  return options.commandPrefix.trim().split(/\s+/).filter(Boolean);
+}
+
+function getToolPath(options: ToolOptions, tool: Analyzer): string {
+  return options.sdkPath ? path.join(options.sdkPath, 'bin', tool) : tool;
+}
+
+function killProcessTree(child: ChildProcess) {
+  if (child.pid === undefined || child.exitCode !== null) {
+    return;
+  }
+  if (process.platform === 'win32') {
+    spawn('taskkill', ['/pid', String(child.pid), '/T', '/F']);
+    return;
+  }
+  try {
+    process.kill(-child.pid, 'SIGTERM');
+  } catch {
+    child.kill();
+  }
+}
+
+/**
+ * Runs `dart analyze` / `flutter analyze` with JSON output.
+ */
+export class CliJsonProvider implements AnalysisProvider {
+  public readonly label: string;
+  private readonly _command: string;
+  private readonly _maxBuffer: number;
+
+  constructor(options: CliOptions) {
+    this._command = buildCommand(options, ['--format=json']);
+    this._maxBuffer = options.maxBuffer;
+    this.label = this._command;
+  }
+
+  public async analyze(
+    roots: string[],
+    signal?: AbortSignal,
+    paths?: string[]
+  ): Promise<RawIssue[]> {
+    return analyzeTargets(this._command, roots, paths, {
+      maxBuffer: this._maxBuffer,
+      signal,
+      parse: (stdout, root) => {
+        try {
+          return parseJsonOutput(stdout, root);
+        } catch (error) {
+          throw new Error(
+            `\`${this._command}\` did not produce JSON: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      },
+    });
+  }
+}
+
+/**
+ * Runs `dart analyze` / `flutter analyze` with the pipe-delimited machine
+ * output.
+ */
+export class CliMachineProvider implements AnalysisProvider {
+  public readonly label: string;
+  private readonly _command: string;
+  private readonly _maxBuffer: number;
+
+  constructor(options: CliOptions) {
+    this._command = buildCommand(options, ['--format=machine']);
+    this._maxBuffer = options.maxBuffer;
+    this.label = this._command;
+  }
+
+  public async analyze(
+    roots: string[],
+    signal?: AbortSignal,
+    paths?: string[]
+  ): Promise<RawIssue[]> {
+    return analyzeTargets(this._command, roots, paths, {
+      maxBuffer: this._maxBuffer,
+      signal,
+      parse: parseMachineOutput,
+    });
+  }
+}
+
+/**
+ * Runs `dart analyze` / `flutter analyze` and parses the human readable
+ * output.
+ */
+export class CliTextProvider implements AnalysisProvider {
+  public readonly label: string;
+  private readonly _command: string;
+  private readonly _maxBuffer: number;
+
+  constructor(options: CliOptions) {
+    this._command = buildCommand(options, []);
+    this._maxBuffer = options.maxBuffer;
+    this.label = this._command;
+  }
+
+  public async analyze(
+    roots: string[],
+    signal?: AbortSignal,
+    paths?: string[]
+  ): Promise<RawIssue[]> {
+    return analyzeTargets(this._command, roots, paths, {
+      maxBuffer: this._maxBuffer,
+      signal,
+      parse: parseTextOutput,
+    });
+  }
+}
+
+interface AnalyzeTargetsOptions extends RunCommandOptions {
+  parse: (stdout: string, root: string) => RawIssue[];
+}
+
+/**
+ * Runs the analyzer in every root, or only on the given paths within each
+ * root, passed relative to it. Roots without any of the paths are skipped.
+ */
+async function analyzeTargets(
+  command: string,
+  roots: string[],
+  paths: string[] | undefined,
+  options: AnalyzeTargetsOptions
+): Promise<RawIssue[]> {
+  const { parse, ...runOptions } = options;
+  const issues: RawIssue[] = [];
+  for (const root of roots) {
+    for (const target of getRootTargets(root, paths)) {
+      const args = target ? ` ${quoteArg(target)}` : '';
+      const stdout = await runCommand(command + args, root, runOptions);
+      issues.push(...parse(stdout, root));
+    }
+  }
+  return issues;
+}
+
+/**
+ * Paths to pass to the analyzer in `root`, relative to it. An empty string
+ * stands for the whole root.
+ */
+function getRootTargets(root: string, paths: string[] | undefined): string[] {
+  if (!paths) {
+    return [''];
+  }
+  const targets: string[] = [];
+  for (const target of paths) {
+    // The root itself or a folder containing it
+    if (target === root || isWithin(target, root)) {
+      return [''];
+    }
+    if (isWithin(root, target)) {
+      targets.push(path.relative(root, target));
+    }
+  }
+  return targets;
+}
+
+function isWithin(dir: string, file: string): boolean {
+  const relative = path.relative(dir, file);
+  return (
+    !!relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+  );
+}
+
+function buildCommand(options: CliOptions, formatArgs: string[]): string {
+  return [
+    options.executable,
+    'analyze',
+    ...formatArgs,
+    ...options.extraArgs.map((arg) => quoteArg(arg)),
+  ].join(' ');
+}
@@ -0,0 +1,39 @@
+import { RawIssue } from '../analysisIssue';
+import { parseAnalyzerOutput } from '../parser';
+import { AnalysisProvider } from './analysisProvider';
+import { DEFAULT_MAX_BUFFER, runCommand } from './cliProvider';
+
+/**
+ * Runs a user-defined shell command, such as `fvm flutter analyze` or a Bazel
+ * target, in every package root. The output may be in any of the formats
+ * `parseAnalyzerOutput` understands.
+ */
+export class CustomCommandProvider implements AnalysisProvider {
+  public readonly label: string;
+
+  constructor(
+    private readonly _command: string,
+    private readonly _maxBuffer = DEFAULT_MAX_BUFFER
+  ) {
+    this.label = _command;
+  }
+
+  public async analyze(
+    roots: string[],
+    signal?: AbortSignal
+  ): Promise<RawIssue[]> {
+    if (!this._command.trim()) {
+      throw new Error('No custom command set in `dartAnalysisPanel.customCommand`');
+    }
+
+    const issues: RawIssue[] = [];
+    for (const root of roots) {
+      const stdout = await runCommand(this._command, root, {
+        maxBuffer: this._maxBuffer,
+        signal,
+      });
+      issues.push(...parseAnalyzerOutput(stdout, root));
+    }
+    return issues;
+  }
+}
@@ -0,0 +1,103 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { IssueSeverity, RawIssue } from '../analysisIssue';
+import { AnalysisProvider } from './analysisProvider';
+
+/** Source of the diagnostics this extension publishes itself */
+export const PUBLISHED_DIAGNOSTIC_SOURCE = 'Dart Analysis';
+
+/**
+ * Reads the diagnostics VS Code already has for Dart files, usually published
+ * by the Dart extension. Only covers files the language server has analyzed.
+ */
+export class EditorDiagnosticsProvider implements AnalysisProvider {
+  public readonly label = 'Editor diagnostics';
+
+  public async analyze(roots: string[]): Promise<RawIssue[]> {
+    const issues: RawIssue[] = [];
+    const diagnostics = vscode.languages.getDiagnostics();
+
+    for (const [uri, diags] of diagnostics) {
+      if (uri.scheme !== 'file' || !uri.fsPath.endsWith('.dart')) {
+        continue;
+      }
+      if (!roots.some((root) => isWithin(root, uri.fsPath))) {
+        continue;
+      }
+
+      for (const diagnostic of diags) {
+        // Never read back our own results
+        if (diagnostic.source === PUBLISHED_DIAGNOSTIC_SOURCE) {
+          continue;
+        }
+        issues.push({
+          severity: mapDiagnosticSeverity(diagnostic.severity),
+          code: getDiagnosticCode(diagnostic),
+          message: diagnostic.message,
+          file: uri.fsPath,
+          line: diagnostic.range.start.line + 1,
+          column: diagnostic.range.start.character + 1,
+          endLine: diagnostic.range.end.line + 1,
+          endColumn: diagnostic.range.end.character + 1,
+          documentation: getDiagnosticTarget(diagnostic),
+          contextMessages: (diagnostic.relatedInformation ?? []).map(
+            (related) => ({
+              message: related.message,
+              file: related.location.uri.fsPath,
+              line: related.location.range.start.line + 1,
+              column: related.location.range.start.character + 1,
+            })
+          ),
+        });
+      }
+    }
+
+    return issues;
+  }
+}
+
+function isWithin(root: string, file: string): boolean {
+  const relative = path.relative(root, file);
+  return !relative.startsWith('..') && !path.isAbsolute(relative);
+}
+
+export function getDiagnosticCode(diagnostic: vscode.Diagnostic): string {
+  if (typeof diagnostic.code === 'string') {
+    return diagnostic.code;
+  }
+  if (typeof diagnostic.code === 'number') {
+    return String(diagnostic.code);
+  }
+  if (diagnostic.code && typeof diagnostic.code === 'object') {
+    return typeof diagnostic.code.value === 'string'
+      ? diagnostic.code.value
+      : String(diagnostic.code.value);
+  }
+  return 'unknown';
+}
+
+function getDiagnosticTarget(
+  diagnostic: vscode.Diagnostic
+): string | undefined {
+  if (diagnostic.code && typeof diagnostic.code === 'object') {
+    return diagnostic.code.target.toString();
+  }
+  return undefined;
+}
+
+function mapDiagnosticSeverity(
+  severity: vscode.DiagnosticSeverity
+): IssueSeverity {
+  switch (severity) {
+    case vscode.DiagnosticSeverity.Error:
+      return 'error';
+    case vscode.DiagnosticSeverity.Warning:
+      return 'warning';
+    case vscode.DiagnosticSeverity.Information:
+      return 'info';
+    case vscode.DiagnosticSeverity.Hint:
+      return 'hint';
+    default:
+      return 'info';
+  }
+}
@@ -0,0 +1,88 @@
+import { defaultAnalysisServerOptions } from '../analysisServer';
+import { ExtensionConfig } from '../config';
+import { AnalysisProvider } from './analysisProvider';
+import { AnalysisServerProvider } from './analysisServerProvider';
+import {
+  Analyzer,
+  CliJsonProvider,
+  CliOptions,
+  CliMachineProvider,
+  CliTextProvider,
+  getDartExecutable,
+  getToolCommand,
+} from './cliProvider';
+import { CustomCommandProvider } from './customCommandProvider';
+import { EditorDiagnosticsProvider } from './editorDiagnosticsProvider';
+
+export {
+  AnalysisOutcome,
+  AnalysisProvider,
+  ProviderFallback,
+  analyzeWithFallback,
+} from './analysisProvider';
+export { Analyzer } from './cliProvider';
+
+/**
+ * Builds the providers to try, in order, for the configured
+ * `dartAnalysisPanel.provider`. Only `auto` falls back to other providers;
+ * an explicit choice reports its own failure instead.
+ */
+export function createProviders(
+  analyzer: Analyzer,
+  config: ExtensionConfig
+): AnalysisProvider[] {
+  const cliOptions: CliOptions = {
+    executable: getToolCommand(config, analyzer),
+    extraArgs: config.extraArgs,
+    maxBuffer: config.maxOutputSize * 1024 * 1024,
+  };
+
+  switch (config.provider) {
+    case 'json':
+      return [new CliJsonProvider(cliOptions)];
+    case 'machine':
+      return [new CliMachineProvider(cliOptions)];
+    case 'text':
+      return [new CliTextProvider(cliOptions)];
+    case 'editor':
+      return [new EditorDiagnosticsProvider()];
+    case 'command':
+      return [
+        new CustomCommandProvider(config.customCommand, cliOptions.maxBuffer),
+      ];
+    case 'analysisServer': {
+      const dart = getDartExecutable(config);
+      return [
+        new AnalysisServerProvider({
+          command: dart.command,
+          args: [...dart.args, ...defaultAnalysisServerOptions.args],
+        }),
+      ];
+    }
+    default:
+      return [
+        new CliJsonProvider(cliOptions),
+        new CliMachineProvider(cliOptions),
+        new CliTextProvider(cliOptions),
+        new EditorDiagnosticsProvider(),
+      ];
+  }
+}
+
+/**
+ * Builds the providers that analyze files on disk outside the workspace,
+ * e.g. in a git worktree. The editor's diagnostics and the analysis server
+ * only know the workspace, so those settings fall back to the CLI.
+ */
+export function createCheckoutProviders(
+  analyzer: Analyzer,
+  config: ExtensionConfig
+): AnalysisProvider[] {
+  const provider =
+    config.provider === 'editor' || config.provider === 'analysisServer'
+      ? 'auto'
+      : config.provider;
+  return createProviders(analyzer, { ...config, provider }).filter(
+    (candidate) => !(candidate instanceof EditorDiagnosticsProvider)
+  );
+}
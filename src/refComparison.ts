@@ -0,0 +1,173 @@
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisIssue, RawIssue } from './analysisIssue';
+import { fingerprintIssues } from './baseline';
+import {
+  DartPackage,
+  attributeToPackages,
+  getAnalysisRoots,
+} from './dartPackages';
+import { addWorktree, removeWorktree, resolveCommit } from './gitScope';
+
+export interface RefInfo {
+  /** Branch, tag or commit as entered */
+  ref: string;
+  commit: string;
+}
+
+/** Analysis results of one ref */
+export interface RefResults extends RefInfo {
+  issues: AnalysisIssue[];
+}
+
+/**
+ * Issues of two refs matched by fingerprint: `introduced` only occur in
+ * `head`, `resolved` only in `base` and `unchanged` in both, as reported for
+ * `head`.
+ */
+export interface RefComparison {
+  base: RefInfo;
+  head: RefInfo;
+  introduced: AnalysisIssue[];
+  resolved: AnalysisIssue[];
+  unchanged: AnalysisIssue[];
+}
+
+/** How to prepare and analyze a checkout */
+export interface CheckoutAnalysis {
+  /** Fetches the dependencies of a package, e.g. with `dart pub get` */
+  getDependencies(root: string, signal: AbortSignal): Promise<void>;
+  analyze(roots: string[], signal: AbortSignal): Promise<RawIssue[]>;
+  report?(message: string): void;
+}
+
+/**
+ * Checks `ref` out into a temporary git worktree, fetches the dependencies
+ * of the given packages that exist there and analyzes them. Fingerprints
+ * come from the checked-out files, while paths are mapped back into the
+ * repository so that the issues can be opened. The worktree is removed
+ * again afterwards.
+ */
+export async function analyzeRef(
+  repoRoot: string,
+  ref: string,
+  packages: DartPackage[],
+  analysis: CheckoutAnalysis,
+  signal: AbortSignal
+): Promise<RefResults> {
+  const commit = await resolveCommit(repoRoot, ref);
+  // Resolved because analyzers report real paths, e.g. /private/var on macOS
+  // where the temporary folder is under the /var symlink
+  const tempDir = await fs.realpath(
+    await fs.mkdtemp(path.join(os.tmpdir(), 'dart-analysis-'))
+  );
+  const checkout = path.join(tempDir, 'checkout');
+  const toCheckout = (file: string) =>
+    path.join(checkout, path.relative(repoRoot, file));
+  const fromCheckout = (file: string) =>
+    path.join(repoRoot, path.relative(checkout, file));
+
+  try {
+    analysis.report?.(`Checking out ${ref}...`);
+    await addWorktree(repoRoot, commit, checkout);
+
+    // Packages added or removed by the ref only count where they exist
+    const checkoutPackages: DartPackage[] = [];
+    for (const pkg of packages) {
+      const root = toCheckout(pkg.root);
+      if (await exists(path.join(root, 'pubspec.yaml'))) {
+        checkoutPackages.push({ ...pkg, root });
+      }
+    }
+    if (checkoutPackages.length === 0) {
+      throw new Error(`No Dart packages of the workspace exist in ${ref}`);
+    }
+
+    for (const pkg of checkoutPackages) {
+      signal.throwIfAborted();
+      analysis.report?.(`Getting dependencies of ${pkg.name} in ${ref}...`);
+      await analysis.getDependencies(pkg.root, signal);
+    }
+
+    analysis.report?.(`Analyzing ${ref}...`);
+    const roots = getAnalysisRoots(checkoutPackages).map((pkg) => pkg.root);
+    const issues = attributeToPackages(
+      await analysis.analyze(roots, signal),
+      checkoutPackages
+    );
+    const fingerprints = await fingerprintIssues(issues);
+    issues.forEach((issue, index) => {
+      issue.fingerprint = fingerprints[index];
+      issue.packageRoot = fromCheckout(issue.packageRoot);
+      issue.contextMessages = issue.contextMessages?.map((context) => ({
+        ...context,
+        file: fromCheckout(context.file),
+      }));
+    });
+    return { ref, commit, issues: sortIssues(issues) };
+  } finally {
+    await removeWorktree(repoRoot, checkout).catch(() => undefined);
+    await fs.rm(tempDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Matches the issues of two refs by fingerprint. Fingerprints are counted,
+ * the same way baselines are matched, so that two identical issues in `head`
+ * are only unchanged when `base` has two of them as well.
+ */
+export function compareRefResults(
+  base: RefResults,
+  head: RefResults
+): RefComparison {
+  const remaining = new Map<string, AnalysisIssue[]>();
+  for (const issue of base.issues) {
+    const key = issue.fingerprint ?? '';
+    const issues = remaining.get(key);
+    if (issues) {
+      issues.push(issue);
+    } else {
+      remaining.set(key, [issue]);
+    }
+  }
+
+  const introduced: AnalysisIssue[] = [];
+  const unchanged: AnalysisIssue[] = [];
+  for (const issue of head.issues) {
+    const matches = remaining.get(issue.fingerprint ?? '');
+    if (matches?.length) {
+      matches.pop();
+      unchanged.push(issue);
+    } else {
+      introduced.push(issue);
+    }
+  }
+
+  return {
+    base: { ref: base.ref, commit: base.commit },
+    head: { ref: head.ref, commit: head.commit },
+    introduced,
+    resolved: sortIssues(Array.from(remaining.values()).flat()),
+    unchanged,
+  };
+}
+
+function sortIssues(issues: AnalysisIssue[]): AnalysisIssue[] {
+  return issues.sort(
+    (a, b) =>
+      a.packageRoot.localeCompare(b.packageRoot) ||
+      a.file.localeCompare(b.file) ||
+      a.line - b.line ||
+      a.column - b.column
+  );
+}
+
+async function exists(file: string): Promise<boolean> {
+  try {
+    await fs.access(file);
+    return true;
+  } catch {
+    return false;
+  }
+}
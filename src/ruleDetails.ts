@@ -0,0 +1,139 @@
+import * as path from 'path';
+import { AnalysisIssue } from './analysisIssue';
+import {
+  DiagnosticSeverity,
+  RuleStatus,
+  SeverityOverride,
+  readAnalysisOptions,
+} from './analysisOptions';
+import { LINT_RULES, getRuleDocumentationUrl } from './lintRules';
+
+/** Everything known about the rule or diagnostic behind an issue's code */
+export interface RuleDetails {
+  code: string;
+  isLint: boolean;
+  description?: string;
+  correctionMessage?: string;
+  documentation: string;
+  /** Options file that applies to the issue's package */
+  optionsFile?: string;
+  /** Where a lint is turned on or off; unset when nothing configures it */
+  status?: RuleStatus;
+  /** Severity set under `analyzer: errors:` */
+  severity?: SeverityOverride;
+  /** Issues with this code across all results */
+  occurrences: number;
+  files: number;
+}
+
+/** One row of the rules overview */
+export interface RuleSummary {
+  code: string;
+  isLint: boolean;
+  enabled: boolean;
+  /** File or include URI that enables or disables the lint */
+  source?: string;
+  severity?: DiagnosticSeverity;
+  severitySource?: string;
+  description?: string;
+  occurrences: number;
+}
+
+/** The analysis options of a package as the rules pane shows them */
+export interface RulesOverview {
+  packageRoot: string;
+  optionsFile?: string;
+  exclude: string[];
+  excludeSource?: string;
+  rules: RuleSummary[];
+}
+
+/**
+ * Describes a rule or diagnostic in the context of a package. `issue`
+ * supplies the analyzer's own correction message and documentation link.
+ */
+export async function getRuleDetails(
+  code: string,
+  packageRoot: string,
+  issues: AnalysisIssue[],
+  issue?: AnalysisIssue
+): Promise<RuleDetails> {
+  const isLint = issue?.type === 'LINT' || code in LINT_RULES;
+  const options = await readAnalysisOptions(packageRoot);
+
+  const matching = issues.filter((other) => other.code === code);
+  const files = new Set(
+    matching.map((other) => path.join(other.packageRoot, other.file))
+  );
+
+  return {
+    code,
+    isLint,
+    description: LINT_RULES[code]?.description,
+    correctionMessage: issue?.correctionMessage,
+    documentation:
+      issue?.documentation ?? getRuleDocumentationUrl(code, isLint),
+    optionsFile: options.file,
+    status: isLint ? options.rules.get(code) : undefined,
+    severity: options.errors.get(code),
+    occurrences: matching.length,
+    files: files.size,
+  };
+}
+
+/**
+ * Lists every lint rule known from the bundled metadata or the options,
+ * and every other diagnostic that is reported or has a severity override.
+ */
+export async function getRulesOverview(
+  packageRoot: string,
+  issues: AnalysisIssue[]
+): Promise<RulesOverview> {
+  const options = await readAnalysisOptions(packageRoot);
+
+  const occurrences = new Map<string, number>();
+  const lints = new Set(Object.keys(LINT_RULES));
+  for (const issue of issues) {
+    if (issue.packageRoot === packageRoot) {
+      occurrences.set(issue.code, (occurrences.get(issue.code) ?? 0) + 1);
+    }
+    if (issue.type === 'LINT') {
+      lints.add(issue.code);
+    }
+  }
+  options.rules.forEach((_, code) => lints.add(code));
+
+  const codes = new Set([
+    ...lints,
+    ...options.errors.keys(),
+    ...occurrences.keys(),
+  ]);
+  const rules = Array.from(codes, (code): RuleSummary => {
+    const isLint = lints.has(code);
+    const status = options.rules.get(code);
+    const severity = options.errors.get(code);
+    const count = occurrences.get(code) ?? 0;
+    return {
+      code,
+      isLint,
+      // A reported lint is active even when its rule set was not resolved
+      enabled: isLint
+        ? (status?.enabled ?? count > 0)
+        : severity?.severity !== 'ignore',
+      source: status?.source,
+      severity: severity?.severity,
+      severitySource: severity?.source,
+      description: LINT_RULES[code]?.description,
+      occurrences: count,
+    };
+  });
+  rules.sort((a, b) => a.code.localeCompare(b.code));
+
+  return {
+    packageRoot,
+    optionsFile: options.file,
+    exclude: options.exclude,
+    excludeSource: options.excludeSource,
+    rules,
+  };
+}
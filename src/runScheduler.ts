@@ -0,0 +1,131 @@
+/** Abort reason for a run that took longer than the configured timeout */
+export class RunTimeoutError extends Error {
+  constructor(public readonly seconds: number) {
+    super(`Analysis timed out after ${seconds} seconds`);
+  }
+}
+
+/** Abort reason for a run the user cancelled */
+export class RunCancelledError extends Error {
+  constructor() {
+    super('Analysis cancelled');
+  }
+}
+
+interface PendingRun {
+  promise: Promise<void>;
+  resolve: () => void;
+  reject: (error: unknown) => void;
+}
+
+/**
+ * Runs one task at a time. Requests that arrive while a run is in flight are
+ * not dropped but coalesced into a single follow-up run, and `schedule`
+ * debounces bursts of requests such as several saves in a row. Each run gets
+ * an `AbortSignal` that fires on `cancel` or when it exceeds the timeout.
+ *
+ * Errors of the task reject the promises of the callers waiting for that
+ * run; the task should still handle the errors it can report itself.
+ */
+export class RunScheduler {
+  private readonly _task: (signal: AbortSignal) => Promise<void>;
+  private readonly _getTimeout: () => number;
+  private _running: Promise<void> | undefined;
+  private _controller: AbortController | undefined;
+  private _pending: PendingRun | undefined;
+  private _debounceTimer: NodeJS.Timeout | undefined;
+
+  /**
+   * @param getTimeout Returns the timeout of the next run in seconds, or 0
+   * for none. Read at the start of every run so that changes apply at once.
+   */
+  constructor(
+    task: (signal: AbortSignal) => Promise<void>,
+    getTimeout: () => number
+  ) {
+    this._task = task;
+    this._getTimeout = getTimeout;
+  }
+
+  public get isRunning(): boolean {
+    return this._running !== undefined;
+  }
+
+  /**
+   * Starts a run now, or once the current run has finished. Resolves when a
+   * run that started after this call has completed.
+   */
+  public run(): Promise<void> {
+    this._clearDebounce();
+    if (!this._running) {
+      return this._start();
+    }
+    if (!this._pending) {
+      let resolve!: () => void;
+      let reject!: (error: unknown) => void;
+      const promise = new Promise<void>((res, rej) => {
+        resolve = res;
+        reject = rej;
+      });
+      this._pending = { promise, resolve, reject };
+    }
+    return this._pending.promise;
+  }
+
+  /** Runs after `delay` milliseconds without further calls */
+  public schedule(delay: number) {
+    this._clearDebounce();
+    this._debounceTimer = setTimeout(() => {
+      this._debounceTimer = undefined;
+      // Nobody waits for a debounced run to pass its errors on to
+      this.run().catch(() => undefined);
+    }, delay);
+  }
+
+  /** Aborts the current run and drops any scheduled or queued run */
+  public cancel() {
+    this._clearDebounce();
+    this._pending?.resolve();
+    this._pending = undefined;
+    this._controller?.abort(new RunCancelledError());
+  }
+
+  public dispose() {
+    this.cancel();
+  }
+
+  private _start(): Promise<void> {
+    const controller = new AbortController();
+    this._controller = controller;
+
+    const seconds = this._getTimeout();
+    const timeout =
+      seconds > 0
+        ? setTimeout(
+            () => controller.abort(new RunTimeoutError(seconds)),
+            seconds * 1000
+          )
+        : undefined;
+
+    const run = this._task(controller.signal).finally(() => {
+      clearTimeout(timeout);
+      this._running = undefined;
+      this._controller = undefined;
+
+      const pending = this._pending;
+      this._pending = undefined;
+      if (pending) {
+        this._start().then(pending.resolve, pending.reject);
+      }
+    });
+    this._running = run;
+    return run;
+  }
+
+  private _clearDebounce() {
+    if (this._debounceTimer) {
+      clearTimeout(this._debounceTimer);
+      this._debounceTimer = undefined;
+    }
+  }
+}
@@ -0,0 +1,61 @@
+import * as vscode from 'vscode';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { AnalysisIssue } from './analysisIssue';
+
+// Lines shown around the issue's range, and the most of the range itself
+const CONTEXT_LINES = 2;
+const MAX_RANGE_LINES = 10;
+// Minified or generated code can have huge lines
+const MAX_LINE_LENGTH = 400;
+
+/** Source lines around an issue; `startLine` is 1-based */
+export interface Snippet {
+  startLine: number;
+  lines: string[];
+  /** Read from an editor with unsaved changes, which may have moved the issue */
+  dirty: boolean;
+}
+
+/**
+ * Reads the lines around an issue, from the open document when it has unsaved
+ * changes and from disk otherwise.
+ */
+export async function readSnippet(
+  issue: AnalysisIssue
+): Promise<Snippet | undefined> {
+  const file = path.join(issue.packageRoot, issue.file);
+  const document = vscode.workspace.textDocuments.find(
+    (doc) => doc.uri.scheme === 'file' && doc.uri.fsPath === file
+  );
+
+  let content: string;
+  if (document?.isDirty) {
+    content = document.getText();
+  } else {
+    try {
+      content = await fs.readFile(file, 'utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  const lines = content.split(/\r?\n/);
+  const endLine = Math.min(
+    issue.endLine ?? issue.line,
+    issue.line + MAX_RANGE_LINES - 1
+  );
+  const first = Math.max(1, issue.line - CONTEXT_LINES);
+  const last = Math.min(lines.length, endLine + CONTEXT_LINES);
+  if (first > last) {
+    return undefined;
+  }
+
+  return {
+    startLine: first,
+    lines: lines
+      .slice(first - 1, last)
+      .map((line) => line.slice(0, MAX_LINE_LENGTH)),
+    dirty: document?.isDirty ?? false,
+  };
+}
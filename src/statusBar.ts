@@ -0,0 +1,104 @@
+import * as vscode from 'vscode';
+import { IssueSeverity } from './analysisIssue';
+import { AnalysisService, AnalysisState } from './analysisService';
+import { affectsConfig, getConfig } from './config';
+
+const STATE_ICONS: Record<AnalysisState, string> = {
+  idle: '',
+  analyzing: '$(sync~spin) ',
+  upToDate: '',
+  stale: '$(history) ',
+  failed: '$(alert) ',
+};
+
+/**
+ * Status bar item with the error and warning counts of the latest analysis
+ * and whether it is running, stale or failed. It works without any view
+ * open; clicking it shows the panel.
+ */
+export class AnalysisStatusBar implements vscode.Disposable {
+  private readonly _service: AnalysisService;
+  private readonly _item: vscode.StatusBarItem;
+  private _disposables: vscode.Disposable[] = [];
+
+  constructor(service: AnalysisService) {
+    this._service = service;
+    this._item = vscode.window.createStatusBarItem(
+      'dartAnalysisPanel.status',
+      vscode.StatusBarAlignment.Left,
+      10
+    );
+    this._item.name = 'Dart Analysis';
+    this._item.command = 'dartAnalysisPanel.show';
+    this._disposables.push(this._item);
+
+    service.onDidChange(() => this._update(), null, this._disposables);
+    service.onDidChangeStatus(() => this._update(), null, this._disposables);
+    vscode.workspace.onDidChangeConfiguration(
+      (event) => affectsConfig(event, 'showStatusBar') && this._update(),
+      null,
+      this._disposables
+    );
+    this._update();
+  }
+
+  private _update() {
+    const service = this._service;
+    const state = service.state;
+    // Nothing to report before the first run or without Dart packages
+    if (state === 'idle' || !getConfig().showStatusBar) {
+      this._item.hide();
+      return;
+    }
+
+    const counts: Record<IssueSeverity, number> = {
+      error: 0,
+      warning: 0,
+      info: 0,
+      hint: 0,
+    };
+    for (const issue of service.issues) {
+      counts[issue.severity]++;
+    }
+
+    const icon = STATE_ICONS[state];
+    this._item.text = service.hasResults
+      ? `${icon}$(error) ${counts.error} $(warning) ${counts.warning}`
+      : `${icon}Dart Analysis`;
+    this._item.backgroundColor =
+      state === 'failed'
+        ? new vscode.ThemeColor('statusBarItem.errorBackground')
+        : undefined;
+
+    const tooltip = new vscode.MarkdownString('', true);
+    tooltip.appendMarkdown('**Dart Analysis**\n\n');
+    if (service.hasResults) {
+      tooltip.appendMarkdown(
+        `$(error) ${counts.error} errors · $(warning) ${counts.warning} warnings · $(info) ${
+          counts.info + counts.hint
+        } infos\n\n`
+      );
+    }
+    if (state === 'stale') {
+      tooltip.appendMarkdown(
+        'Files changed since the last analysis, results may be out of date.\n\n'
+      );
+    }
+    if (service.status) {
+      tooltip.appendText(service.status);
+      tooltip.appendMarkdown('\n\n');
+    }
+    tooltip.appendMarkdown('Click to show the Dart Analysis panel');
+    this._item.tooltip = tooltip;
+    this._item.show();
+  }
+
+  public dispose() {
+    while (this._disposables.length) {
+      const x = this._disposables.pop();
+      if (x) {
+        x.dispose();
+      }
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  ANALYSIS_OPTIONS_FILE,
+  disableDiagnostic,
+  setDiagnosticSeverity,
+  setLintRule,
+} from '../analysisOptions';
+import { fixturePath } from './helpers';
+
+// Run with UPDATE_GOLDEN=1 to rewrite the expected files after a deliberate
+// change to the edits
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+
+suite('analysis_options.yaml edits', () => {
+  let packageRoot: string;
+  let file: string;
+
+  const assertOptions = async (expected: string) => {
+    const golden = fixturePath('analysisOptions', expected);
+    const content = await fs.readFile(file, 'utf8');
+    if (UPDATE_GOLDEN) {
+      await fs.writeFile(golden, content);
+    }
+    assert.strictEqual(content, await fs.readFile(golden, 'utf8'));
+  };
+
+  setup(async () => {
+    packageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'options-'));
+    file = path.join(packageRoot, ANALYSIS_OPTIONS_FILE);
+    await fs.copyFile(
+      fixturePath('analysisOptions', ANALYSIS_OPTIONS_FILE),
+      file
+    );
+  });
+
+  teardown(async () => {
+    await fs.rm(packageRoot, { recursive: true, force: true });
+  });
+
+  test('enables a rule in the list of rules', async () => {
+    assert.strictEqual(
+      await setLintRule(packageRoot, 'always_declare_return_types', true),
+      file
+    );
+
+    await assertOptions('enabled.yaml');
+  });
+
+  test('disables a rule, turning the list into a map', async () => {
+    await setLintRule(packageRoot, 'avoid_print', false);
+
+    await assertOptions('disabled.yaml');
+  });
+
+  test('overrides and removes severities', async () => {
+    await setDiagnosticSeverity(packageRoot, 'unused_import', 'error');
+    await setDiagnosticSeverity(packageRoot, 'todo', undefined);
+    await disableDiagnostic(packageRoot, 'dead_code', false);
+
+    await assertOptions('severities.yaml');
+  });
+
+  test('creates the file when the package has none', async () => {
+    await fs.rm(file);
+    // Options files of the folders above the package would apply instead
+    const nested = path.join(packageRoot, 'app');
+    await fs.mkdir(nested);
+
+    const created = await disableDiagnostic(nested, 'avoid_print', true);
+
+    assert.strictEqual(created, path.join(nested, ANALYSIS_OPTIONS_FILE));
+    assert.strictEqual(
+      await fs.readFile(created, 'utf8'),
+      'linter:\n  rules:\n    avoid_print: false\n'
+    );
+  });
+});
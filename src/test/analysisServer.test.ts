@@ -0,0 +1,96 @@
+import * as assert from 'assert';
+import { AnalysisServerClient } from '../analysisServer';
+import { AnalysisServerProvider } from '../providers/analysisServerProvider';
+import { fixturePath } from './helpers';
+
+function fakeServer(...args: string[]) {
+  return {
+    command: process.execPath,
+    args: [fixturePath('fakeAnalysisServer.js'), ...args],
+  };
+}
+
+suite('AnalysisServerClient', () => {
+  let client: AnalysisServerClient;
+
+  setup(async () => {
+    client = new AnalysisServerClient(fakeServer());
+    await client.start();
+  });
+
+  teardown(() => client.dispose());
+
+  test('waits for the analysis that new roots start', async () => {
+    await client.analyzeRoots(['/work/app']);
+
+    assert.deepStrictEqual(
+      client.errors.map((issue) => [issue.file, issue.line, issue.code]),
+      [['/work/app/lib/main.dart', 3, 'undefined_identifier']]
+    );
+  });
+
+  test('does not wait again for unchanged roots', async () => {
+    await client.analyzeRoots(['/work/app']);
+    await client.analyzeRoots(['/work/app']);
+
+    assert.strictEqual(client.errors.length, 1);
+  });
+
+  test('waits again when the roots change', async () => {
+    await client.analyzeRoots(['/work/app']);
+    await client.analyzeRoots(['/work/app', '/work/core']);
+
+    assert.deepStrictEqual(client.errors.map((issue) => issue.file).sort(), [
+      '/work/app/lib/main.dart',
+      '/work/core/lib/main.dart',
+    ]);
+  });
+
+  test('waits for new roots set during an analysis', async () => {
+    const first = client.analyzeRoots(['/work/app']);
+    // Sent once the server analyzes the first roots, but before it is done
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    await client.analyzeRoots(['/work/app', '/work/core']);
+    await first;
+
+    assert.deepStrictEqual(client.errors.map((issue) => issue.file).sort(), [
+      '/work/app/lib/main.dart',
+      '/work/core/lib/main.dart',
+    ]);
+  });
+
+  test('stops waiting when the server exits', async () => {
+    const hanging = new AnalysisServerClient(fakeServer('--never-finish'));
+    await hanging.start();
+    const analysis = hanging.analyzeRoots(['/work/app']);
+    setTimeout(() => hanging.dispose(), 200);
+
+    await analysis;
+    assert.strictEqual(hanging.isRunning, false);
+  });
+});
+
+suite('AnalysisServerProvider', () => {
+  test('returns the errors of the finished analysis', async () => {
+    const provider = new AnalysisServerProvider(fakeServer());
+    try {
+      const issues = await provider.analyze(['/work/app']);
+      assert.strictEqual(issues.length, 1);
+    } finally {
+      provider.dispose();
+    }
+  });
+
+  test('stops waiting when cancelled', async () => {
+    const provider = new AnalysisServerProvider(fakeServer('--never-finish'));
+    const controller = new AbortController();
+    try {
+      const analysis = provider.analyze(['/work/app'], controller.signal);
+      setTimeout(() => controller.abort(new Error('Cancelled')), 200);
+
+      await assert.rejects(analysis, /Cancelled/);
+    } finally {
+      provider.dispose();
+    }
+  });
+});
@@ -0,0 +1,114 @@
+import * as assert from 'assert';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisIssue } from '../analysisIssue';
+import {
+  compareWithBaseline,
+  createBaseline,
+  fingerprintIssues,
+} from '../baseline';
+
+suite('compareWithBaseline', () => {
+  let packageRoot: string;
+
+  const writeMain = (lines: string[]) =>
+    fs.writeFile(path.join(packageRoot, 'lib', 'main.dart'), lines.join('\n'));
+
+  // Issues in lib/main.dart with their fingerprints, as after a run
+  const analyze = async (
+    findings: [line: number, code: string][]
+  ): Promise<AnalysisIssue[]> => {
+    const issues = findings.map(([line, code]): AnalysisIssue => ({
+      severity: 'info',
+      code,
+      message: code,
+      file: 'lib/main.dart',
+      line,
+      column: 3,
+      packageName: 'app',
+      packageRoot,
+    }));
+    const fingerprints = await fingerprintIssues(issues);
+    issues.forEach((issue, index) => (issue.fingerprint = fingerprints[index]));
+    return issues;
+  };
+
+  setup(async () => {
+    packageRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'baseline-'));
+    await fs.mkdir(path.join(packageRoot, 'lib'));
+  });
+
+  teardown(async () => {
+    await fs.rm(packageRoot, { recursive: true, force: true });
+  });
+
+  test('covers as many issues as the baseline has entries', async () => {
+    await writeMain(['void main() {', "  print('x');", "  print('x');", '}']);
+    const baseline = createBaseline(
+      await analyze([
+        [2, 'avoid_print'],
+        [3, 'avoid_print'],
+      ])
+    );
+
+    await writeMain([
+      'void main() {',
+      "  print('x');",
+      "  print('x');",
+      "  print('x');",
+      '}',
+    ]);
+    const comparison = compareWithBaseline(
+      await analyze([
+        [2, 'avoid_print'],
+        [3, 'avoid_print'],
+        [4, 'avoid_print'],
+      ]),
+      baseline
+    );
+
+    assert.strictEqual(comparison.baselined.size, 2);
+    assert.strictEqual(comparison.newCount, 1);
+    assert.strictEqual(comparison.fixedCount, 0);
+  });
+
+  test('matches issues on lines that moved but kept their text', async () => {
+    await writeMain(['void main() {', "  print('x');", '}']);
+    const baseline = createBaseline(await analyze([[2, 'avoid_print']]));
+
+    // Indented differently and three lines further down
+    await writeMain([
+      '// Entry point',
+      '',
+      '',
+      'void main() {',
+      "      print('x');",
+      '}',
+    ]);
+    const comparison = compareWithBaseline(
+      await analyze([[5, 'avoid_print']]),
+      baseline
+    );
+
+    assert.deepStrictEqual(Array.from(comparison.baselined), [0]);
+    assert.strictEqual(comparison.newCount, 0);
+  });
+
+  test('reports changed lines as new and their entries as fixed', async () => {
+    await writeMain(['void main() {', "  print('x');", '}']);
+    const baseline = createBaseline(await analyze([[2, 'avoid_print']]));
+
+    await writeMain(['void main() {', "  print('y');", '}']);
+    const comparison = compareWithBaseline(
+      await analyze([[2, 'avoid_print']]),
+      baseline
+    );
+
+    assert.strictEqual(comparison.newCount, 1);
+    assert.deepStrictEqual(
+      comparison.fixed.map((entry) => entry.file),
+      ['app/lib/main.dart']
+    );
+  });
+});
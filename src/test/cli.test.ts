@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { spawnSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createBaseline, fingerprintIssues, writeBaseline } from '../baseline';
+import { attributeToPackages, findDartPackages } from '../dartPackages';
+import { parseTextOutput } from '../parser';
+import { fixturePath } from './helpers';
+
+const CLI = path.join(__dirname, '..', 'cli.js');
+// One error, one warning and one info, in lib/main.dart and lib/src/util.dart
+const OUTPUT = fixturePath('parser', 'dart_analyze.txt');
+
+// A command for `--provider command` that prints a file, in any shell
+function printCommand(file: string): string {
+  return (
+    `"${process.execPath}" -e ` +
+    `"process.stdout.write(require('fs').readFileSync(process.argv[1]))" ` +
+    `"${file}"`
+  );
+}
+
+suite('dart-analysis CLI', () => {
+  let folder: string;
+
+  const run = (...args: string[]) =>
+    spawnSync(process.execPath, [CLI, folder, '--no-color', ...args], {
+      encoding: 'utf8',
+    });
+  const analyze = (...args: string[]) =>
+    run('--provider', 'command', '--command', printCommand(OUTPUT), ...args);
+
+  setup(async () => {
+    folder = await fs.mkdtemp(path.join(os.tmpdir(), 'cli-'));
+    await fs.mkdir(path.join(folder, 'lib', 'src'), { recursive: true });
+    await fs.writeFile(path.join(folder, 'pubspec.yaml'), 'name: app\n');
+    await fs.writeFile(
+      path.join(folder, 'lib', 'main.dart'),
+      "import 'package:missing/missing.dart';\n"
+    );
+    await fs.writeFile(
+      path.join(folder, 'lib', 'src', 'util.dart'),
+      'void util() {\n  var x = 1;\n}\n'
+    );
+  });
+
+  teardown(async () => {
+    await fs.rm(folder, { recursive: true, force: true });
+  });
+
+  test('exits with 1 when an issue reaches --fail-on', () => {
+    const result = analyze();
+
+    assert.strictEqual(result.status, 1, result.stderr);
+    assert.match(result.stdout, /3 issues: 1 error, 1 warning, 1 info, 0 hint/);
+  });
+
+  test('exits with 0 when no shown issue reaches --fail-on', () => {
+    assert.strictEqual(analyze('--include', 'lib/src/**').status, 0);
+    assert.strictEqual(analyze('--hide', 'error').status, 0);
+    assert.strictEqual(analyze('--fail-on', 'none').status, 0);
+    assert.strictEqual(
+      analyze('--fail-on', 'info', '--hide', 'error').status,
+      1
+    );
+  });
+
+  test('leaves out baselined issues with --new-only', async () => {
+    const packages = await findDartPackages([folder]);
+    const issues = attributeToPackages(
+      parseTextOutput(await fs.readFile(OUTPUT, 'utf8'), folder),
+      packages
+    );
+    const fingerprints = await fingerprintIssues(issues);
+    issues.forEach((issue, index) => (issue.fingerprint = fingerprints[index]));
+    await writeBaseline(
+      path.join(folder, 'dart_analysis_baseline.json'),
+      createBaseline(issues)
+    );
+
+    const result = analyze('--new-only');
+
+    assert.strictEqual(result.status, 0, result.stderr);
+    assert.match(result.stdout, /0 of 3 issues/);
+    assert.strictEqual(analyze().status, 1);
+  });
+
+  test('exits with 2 on invalid options', () => {
+    const result = analyze('--fail-on', 'fatal');
+
+    assert.strictEqual(result.status, 2);
+    assert.match(result.stderr, /Invalid --fail-on "fatal"/);
+    assert.strictEqual(run('--unknown').status, 2);
+  });
+
+  test('exits with 2 when the analysis fails', async () => {
+    const failing = `"${process.execPath}" -e "process.exit(3)"`;
+    const result = run('--provider', 'command', '--command', failing);
+
+    assert.strictEqual(result.status, 2);
+    assert.match(result.stderr, /exited with code 3/);
+
+    await fs.rm(path.join(folder, 'pubspec.yaml'));
+    assert.match(analyze().stderr, /No Dart packages found/);
+  });
+});
@@ -0,0 +1,50 @@
+import * as assert from 'assert';
+import * as os from 'os';
+import { quoteArg, runCommand } from '../providers/cliProvider';
+
+suite('quoteArg', () => {
+  test('leaves plain arguments alone', () => {
+    assert.strictEqual(
+      quoteArg('--code=unused_import'),
+      '--code=unused_import'
+    );
+    assert.strictEqual(quoteArg('lib/src/main.dart'), 'lib/src/main.dart');
+  });
+
+  test('quotes for cmd.exe on Windows', () => {
+    assert.strictEqual(
+      quoteArg('C:\\src\\flutter\\bin\\dart.bat', 'win32'),
+      'C:\\src\\flutter\\bin\\dart.bat'
+    );
+    assert.strictEqual(
+      quoteArg('C:\\My Projects\\', 'win32'),
+      '^"C:\\My Projects\\\\^"'
+    );
+    assert.strictEqual(
+      quoteArg('100% "done" & more', 'win32'),
+      '^"100^% \\^"done\\^" ^& more^"'
+    );
+  });
+
+  test('keeps special characters from the shell', async () => {
+    // Prints the first argument as the program receives it
+    const echo = `"${process.execPath}" -e "process.stdout.write(process.argv[1])" --`;
+    for (const arg of [
+      'my file.dart',
+      'a;touch pwned',
+      'a|b&c',
+      '$(whoami)',
+      '`id`',
+      'say "hi"',
+      "it's",
+      'back\\slash',
+      '*.dart',
+      '--code=x>out',
+      '%PATH%',
+      'trailing\\',
+    ]) {
+      const output = await runCommand(`${echo} ${quoteArg(arg)}`, os.tmpdir());
+      assert.strictEqual(output, arg);
+    }
+  });
+});
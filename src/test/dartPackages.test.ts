@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as path from 'path';
+import { AnalysisIssue } from '../analysisIssue';
+import { mergeScopedIssues } from '../dartPackages';
+
+const APP = path.join('/work', 'app');
+const CORE = path.join('/work', 'core');
+
+function issue(packageRoot: string, file: string, line = 1): AnalysisIssue {
+  return {
+    severity: 'warning',
+    code: 'unused_import',
+    message: 'Unused import.',
+    file,
+    line,
+    column: 1,
+    packageName: path.basename(packageRoot),
+    packageRoot,
+  };
+}
+
+const locations = (issues: AnalysisIssue[]) =>
+  issues.map(
+    (issue) =>
+      `${issue.packageName}/${issue.file.replace(/\\/g, '/')}:${issue.line}`
+  );
+
+suite('mergeScopedIssues', () => {
+  const previous = [
+    issue(APP, path.join('lib', 'main.dart'), 1),
+    issue(APP, path.join('lib', 'main.dart'), 5),
+    issue(APP, path.join('lib', 'fixed.dart')),
+    issue(APP, path.join('test', 'main_test.dart')),
+    issue(CORE, path.join('lib', 'core.dart')),
+  ];
+
+  test('replaces the issues of the folders the run covered', () => {
+    const merged = mergeScopedIssues(
+      previous,
+      [issue(APP, path.join('lib', 'main.dart'), 7)],
+      [path.join(APP, 'lib')]
+    );
+
+    // lib/fixed.dart has no issues any more
+    assert.deepStrictEqual(locations(merged), [
+      'app/test/main_test.dart:1',
+      'core/lib/core.dart:1',
+      'app/lib/main.dart:7',
+    ]);
+  });
+
+  test('replaces the issues of single files', () => {
+    const merged = mergeScopedIssues(
+      previous,
+      [],
+      [path.join(APP, 'lib', 'fixed.dart'), path.join(CORE, 'lib', 'core.dart')]
+    );
+
+    assert.deepStrictEqual(locations(merged), [
+      'app/lib/main.dart:1',
+      'app/lib/main.dart:5',
+      'app/test/main_test.dart:1',
+    ]);
+  });
+
+  test('does not treat files with a common prefix as inside a folder', () => {
+    const merged = mergeScopedIssues(previous, [], [path.join('/work', 'ap')]);
+
+    assert.strictEqual(merged.length, previous.length);
+  });
+});
@@ -0,0 +1,94 @@
+import * as assert from 'assert';
+import { readFileSync, writeFileSync } from 'fs';
+import { AnalysisIssue } from '../analysisIssue';
+import { ExportFormat, exporters } from '../exporters';
+import { fixturePath } from './helpers';
+
+// Run with UPDATE_GOLDEN=1 to rewrite the golden files after a deliberate
+// change to a format
+const UPDATE_GOLDEN = !!process.env.UPDATE_GOLDEN;
+
+const GOLDEN_FILES: Record<ExportFormat, string> = {
+  sarif: 'report.sarif',
+  junit: 'report.junit.xml',
+  checkstyle: 'report.checkstyle.xml',
+  csv: 'report.csv',
+  markdown: 'report.md',
+};
+
+// Issues across two packages, with characters that every format escapes
+const ISSUES: AnalysisIssue[] = [
+  {
+    severity: 'error',
+    code: 'undefined_identifier',
+    message: "Undefined name 'y'.",
+    file: 'lib/main.dart',
+    line: 3,
+    column: 9,
+    endLine: 3,
+    endColumn: 10,
+    type: 'COMPILE_TIME_ERROR',
+    correctionMessage:
+      'Try correcting the name to one that is defined, or defining the name.',
+    documentation: 'https://dart.dev/diagnostics/undefined_identifier',
+    packageName: 'app',
+    packageRoot: '/work/app',
+  },
+  {
+    severity: 'warning',
+    code: 'unused_local_variable',
+    message: 'The value of "a, b" & <c> | d isn\'t used.',
+    file: 'lib/src/util.dart',
+    line: 12,
+    column: 5,
+    type: 'STATIC_WARNING',
+    packageName: 'app',
+    packageRoot: '/work/app',
+  },
+  {
+    severity: 'info',
+    code: 'prefer_const_constructors',
+    message: "Use 'const' with the constructor to improve performance.",
+    file: 'lib/core.dart',
+    line: 7,
+    column: 10,
+    type: 'LINT',
+    documentation: 'https://dart.dev/lints/prefer_const_constructors',
+    packageName: 'core',
+    packageRoot: '/work/packages/core',
+  },
+  {
+    severity: 'hint',
+    code: 'deprecated_member_use',
+    message: "'old' is deprecated and shouldn't be used.\nUse 'new' instead.",
+    file: 'test/core_test.dart',
+    line: 1,
+    column: 1,
+    type: 'HINT',
+    packageName: 'core',
+    packageRoot: '/work/packages/core',
+  },
+];
+
+suite('exporters', () => {
+  for (const format of Object.keys(GOLDEN_FILES) as ExportFormat[]) {
+    test(`writes ${exporters[format].label} as in the golden file`, () => {
+      const golden = fixturePath('exporters', GOLDEN_FILES[format]);
+      const output = exporters[format].write(ISSUES, {
+        rootPath: '/work',
+        toolVersion: '1.2.3',
+      });
+
+      if (UPDATE_GOLDEN) {
+        writeFileSync(golden, output);
+      }
+      assert.strictEqual(output, readFileSync(golden, 'utf8'));
+    });
+  }
+
+  test('writes empty reports', () => {
+    for (const exporter of Object.values(exporters)) {
+      assert.doesNotThrow(() => exporter.write([], { rootPath: '/work' }));
+    }
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import { AnalysisIssue } from '../analysisIssue';
+import { defaultFilters, filterIssues, globToRegExp } from '../filters';
+
+function issue(file: string): AnalysisIssue {
+  return {
+    severity: 'warning',
+    code: 'unused_import',
+    message: 'Unused import.',
+    file,
+    line: 1,
+    column: 1,
+    packageName: 'app',
+    packageRoot: '/work/app',
+  };
+}
+
+suite('globToRegExp', () => {
+  const matches = (glob: string, file: string) =>
+    globToRegExp(glob).test(file);
+
+  test('matches file names in any directory without a slash', () => {
+    assert.ok(matches('*.g.dart', 'lib/src/model.g.dart'));
+    assert.ok(matches('*.g.dart', 'model.g.dart'));
+    assert.ok(!matches('*.g.dart', 'lib/src/model.dart'));
+  });
+
+  test('anchors patterns with a slash to the package root', () => {
+    assert.ok(matches('lib/*.dart', 'lib/main.dart'));
+    assert.ok(!matches('lib/*.dart', 'lib/src/main.dart'));
+    assert.ok(!matches('lib/*.dart', 'test/lib/main.dart'));
+  });
+
+  test('matches any number of directories with **', () => {
+    assert.ok(matches('lib/**/*.dart', 'lib/main.dart'));
+    assert.ok(matches('lib/**/*.dart', 'lib/a/b/main.dart'));
+    assert.ok(matches('**/generated/**', 'lib/generated/l10n.dart'));
+  });
+
+  test('matches one character with ?', () => {
+    assert.ok(matches('lib/v?.dart', 'lib/v1.dart'));
+    assert.ok(!matches('lib/v?.dart', 'lib/v10.dart'));
+  });
+
+  test('matches {a,b} alternatives, also nested', () => {
+    assert.ok(matches('*.{g,freezed}.dart', 'lib/a.g.dart'));
+    assert.ok(matches('*.{g,freezed}.dart', 'lib/a.freezed.dart'));
+    assert.ok(!matches('*.{g,freezed}.dart', 'lib/a.dart'));
+    assert.ok(matches('lib/{a,b{1,2}}.dart', 'lib/b2.dart'));
+    assert.ok(!matches('lib/{a,b{1,2}}.dart', 'lib/b.dart'));
+  });
+
+  test('matches braces without a partner literally', () => {
+    assert.ok(matches('lib/{a', 'lib/{a'));
+    assert.ok(!matches('lib/{a', 'lib/a'));
+    assert.ok(matches('lib/{a,b', 'lib/{a,b'));
+    assert.ok(matches('lib/a}', 'lib/a}'));
+    assert.ok(matches('lib/{{a,b}', 'lib/{b'));
+  });
+
+  test('escapes regular expression characters', () => {
+    assert.ok(matches('lib/(a)+[b].dart', 'lib/(a)+[b].dart'));
+    assert.ok(!matches('lib/a.dart', 'lib/aXdart'));
+  });
+});
+
+suite('filterIssues', () => {
+  const issues = [
+    issue('lib/main.dart'),
+    issue('lib/a/model.g.dart'),
+    issue('test/main_test.dart'),
+  ];
+  const visibleFiles = (changes: Partial<typeof defaultFilters>) =>
+    filterIssues(issues, { ...defaultFilters, ...changes }).map(
+      (index) => issues[index].file
+    );
+
+  test('applies comma-separated include and exclude globs', () => {
+    assert.deepStrictEqual(visibleFiles({ include: 'lib/**' }), [
+      'lib/main.dart',
+      'lib/a/model.g.dart',
+    ]);
+    assert.deepStrictEqual(
+      visibleFiles({ exclude: '*.g.dart, test/**' }),
+      ['lib/main.dart']
+    );
+  });
+
+  test('does not split globs on commas inside alternatives', () => {
+    assert.deepStrictEqual(visibleFiles({ exclude: '{lib,test}/*.dart' }), [
+      'lib/a/model.g.dart',
+    ]);
+  });
+
+  test('does not throw on a half-typed alternative', () => {
+    assert.deepStrictEqual(visibleFiles({ exclude: 'lib/{a' }), [
+      'lib/main.dart',
+      'lib/a/model.g.dart',
+      'test/main_test.dart',
+    ]);
+    assert.deepStrictEqual(visibleFiles({ include: 'lib/{a,' }), []);
+  });
+});
@@ -0,0 +1,75 @@
+// Fake Dart analysis server for the tests. It speaks just enough of the
+// legacy analysis_server protocol over stdio: every request gets an empty
+// response, and new analysis roots are "analyzed" only after the response,
+// like the real server, reporting one error per root in lib/main.dart.
+// Roots that change during an analysis end it and start a new one.
+//
+// Usage: node fakeAnalysisServer.js [--never-finish]
+const readline = require('readline');
+
+const neverFinish = process.argv.includes('--never-finish');
+let roots = [];
+let analyzing = false;
+let finishTimer;
+
+function send(message) {
+    process.stdout.write(JSON.stringify(message) + '\n');
+}
+
+function setAnalyzing(isAnalyzing) {
+    send({ event: 'server.status', params: { analysis: { isAnalyzing } } });
+}
+
+function analyze() {
+    analyzing = true;
+    setAnalyzing(true);
+    if (neverFinish) {
+        return;
+    }
+    finishTimer = setTimeout(() => {
+        for (const root of roots) {
+            const file = `${root}/lib/main.dart`;
+            send({
+                event: 'analysis.errors',
+                params: {
+                    file,
+                    errors: [
+                        {
+                            severity: 'ERROR',
+                            type: 'COMPILE_TIME_ERROR',
+                            code: 'undefined_identifier',
+                            message: "Undefined name 'y'.",
+                            location: { file, startLine: 3, startColumn: 9 },
+                        },
+                    ],
+                },
+            });
+        }
+        analyzing = false;
+        setAnalyzing(false);
+    }, 100);
+}
+
+readline.createInterface({ input: process.stdin }).on('line', (line) => {
+    const { id, method, params } = JSON.parse(line);
+    send({ id, result: {} });
+    if (method === 'analysis.setAnalysisRoots') {
+        const changed = JSON.stringify(params.included) !== JSON.stringify(roots);
+        roots = params.included;
+        if (changed && analyzing) {
+            // The old analysis only ends a little after the response
+            clearTimeout(finishTimer);
+            setTimeout(() => {
+                analyzing = false;
+                setAnalyzing(false);
+                setTimeout(analyze, 50);
+            }, 20);
+        } else if (changed) {
+            setTimeout(analyze, 50);
+        }
+    } else if (method === 'server.shutdown') {
+        process.exit(0);
+    }
+});
+
+send({ event: 'server.connected', params: { version: '1.0.0', pid: process.pid } });
@@ -0,0 +1,228 @@
+import * as assert from 'assert';
+import { execFileSync } from 'child_process';
+import { promises as fs } from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AnalysisIssue } from '../analysisIssue';
+import { defaultFilters, filterIssues } from '../filters';
+import {
+  GitScope,
+  getChangedFiles,
+  getChangedFilesOf,
+  parseDiffHunks,
+} from '../gitScope';
+
+// Commits need an identity, and global settings must not change the diffs
+const GIT_ENV = {
+  ...process.env,
+  GIT_AUTHOR_NAME: 'Test',
+  GIT_AUTHOR_EMAIL: 'test@example.com',
+  GIT_COMMITTER_NAME: 'Test',
+  GIT_COMMITTER_EMAIL: 'test@example.com',
+  GIT_CONFIG_GLOBAL: os.devNull,
+  GIT_CONFIG_NOSYSTEM: '1',
+};
+
+suite('getChangedFiles', () => {
+  let repo: string;
+
+  const git = (...args: string[]) =>
+    execFileSync('git', args, { cwd: repo, env: GIT_ENV, encoding: 'utf8' });
+  const write = async (file: string, lines: string[]) => {
+    await fs.mkdir(path.dirname(path.join(repo, file)), { recursive: true });
+    await fs.writeFile(path.join(repo, file), lines.join('\n') + '\n');
+  };
+  const commit = (message: string) => {
+    git('add', '-A');
+    git('commit', '-q', '-m', message);
+  };
+
+  setup(async () => {
+    // Resolved so that paths match git's on systems where tmp is a symlink
+    repo = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), 'git-scope-'))
+    );
+    git('init', '-q', '-b', 'main');
+    await write('lib/main.dart', ['a', 'b', 'c', 'd', 'e']);
+    await write('lib/util.dart', ['one', 'two']);
+    commit('Initial commit');
+  });
+
+  teardown(async () => {
+    await fs.rm(repo, { recursive: true, force: true });
+  });
+
+  test('reports uncommitted lines and untracked files', async () => {
+    await write('lib/main.dart', ['a', 'B', 'c', 'd', 'E', 'f']);
+    await write('lib/new.dart', ['new']);
+
+    const changes = await getChangedFiles(repo);
+
+    assert.deepStrictEqual(
+      changes,
+      new Map([
+        [
+          path.join(repo, 'lib/main.dart'),
+          [
+            { start: 2, end: 2 },
+            { start: 5, end: 6 },
+          ],
+        ],
+        [path.join(repo, 'lib/new.dart'), undefined],
+      ])
+    );
+  });
+
+  test('includes staged changes and leaves out deleted lines', async () => {
+    await write('lib/main.dart', ['a', 'c', 'd', 'e']);
+    git('add', 'lib/main.dart');
+
+    const changes = await getChangedFiles(repo);
+
+    assert.deepStrictEqual(changes.get(path.join(repo, 'lib/main.dart')), []);
+  });
+
+  test('compares with the merge base of a base branch', async () => {
+    git('checkout', '-q', '-b', 'feature');
+    await write('lib/util.dart', ['one', 'TWO']);
+    commit('Change util on the branch');
+
+    // Later commits on the base branch are not changes of the branch
+    git('checkout', '-q', 'main');
+    await write('lib/other.dart', ['other']);
+    commit('Add other on main');
+    git('checkout', '-q', 'feature');
+    await write('lib/main.dart', ['A', 'b', 'c', 'd', 'e']);
+
+    const changes = await getChangedFiles(repo, 'main');
+
+    assert.deepStrictEqual(
+      changes,
+      new Map([
+        [path.join(repo, 'lib/main.dart'), [{ start: 1, end: 1 }]],
+        [path.join(repo, 'lib/util.dart'), [{ start: 2, end: 2 }]],
+      ])
+    );
+    assert.deepStrictEqual(
+      (await getChangedFiles(repo)).get(path.join(repo, 'lib/util.dart')),
+      undefined
+    );
+  });
+
+  test('reports renamed files with and without edits', async () => {
+    git('mv', 'lib/util.dart', 'lib/helpers.dart');
+    git('mv', 'lib/main.dart', 'lib/app.dart');
+    await write('lib/app.dart', ['a', 'b', 'C', 'd', 'e']);
+
+    const changes = await getChangedFiles(repo);
+
+    assert.deepStrictEqual(
+      changes,
+      new Map([
+        [path.join(repo, 'lib/app.dart'), [{ start: 3, end: 3 }]],
+        [path.join(repo, 'lib/helpers.dart'), []],
+      ])
+    );
+  });
+
+  test('resolves paths against a subfolder', async () => {
+    await write('lib/util.dart', ['ONE', 'two']);
+    await write('README.md', ['changed outside']);
+
+    const changes = await getChangedFiles(path.join(repo, 'lib'));
+
+    assert.deepStrictEqual(Array.from(changes.keys()), [
+      path.join(repo, 'lib/util.dart'),
+    ]);
+  });
+
+  test('refuses base branches that git would read as options', async () => {
+    const output = path.join(repo, 'output.txt');
+
+    await assert.rejects(
+      getChangedFiles(repo, `--output=${output}`),
+      /is not a valid branch or ref name/
+    );
+    assert.match(
+      (await getChangedFilesOf([repo], '-h')).error ?? '',
+      /"-h" is not a valid branch or ref name/
+    );
+    await assert.rejects(fs.access(output));
+  });
+
+  test('fails outside a repository', async () => {
+    const outside = await fs.mkdtemp(path.join(os.tmpdir(), 'no-git-'));
+    try {
+      await assert.rejects(getChangedFiles(outside));
+    } finally {
+      await fs.rm(outside, { recursive: true, force: true });
+    }
+  });
+
+  test('limits the lines scope to the changed lines', async () => {
+    await write('lib/main.dart', ['a', 'B', 'c', 'd', 'e']);
+    await write('lib/util.dart', ['one', 'two', 'three']);
+    const changes = await getChangedFiles(repo);
+    const issues = [
+      issue('lib/main.dart', 2),
+      issue('lib/main.dart', 4),
+      issue('lib/util.dart', 1),
+      issue('lib/untouched.dart', 1),
+    ];
+    const visible = (scope: GitScope) =>
+      filterIssues(issues, { ...defaultFilters, scope }, { changes }).map(
+        (index) => `${issues[index].file}:${issues[index].line}`
+      );
+
+    assert.deepStrictEqual(visible('workingTree'), [
+      'lib/main.dart:2',
+      'lib/main.dart:4',
+      'lib/util.dart:1',
+    ]);
+    assert.deepStrictEqual(visible('lines'), ['lib/main.dart:2']);
+  });
+
+  function issue(file: string, line: number): AnalysisIssue {
+    return {
+      severity: 'warning',
+      code: 'unused_import',
+      message: 'Unused import.',
+      file,
+      line,
+      column: 1,
+      packageName: 'app',
+      packageRoot: repo,
+    };
+  }
+});
+
+suite('parseDiffHunks', () => {
+  test('reads added, changed and deleted hunks', () => {
+    const diff = [
+      'diff --git a/lib/a.dart b/lib/a.dart',
+      '--- a/lib/a.dart',
+      '+++ b/lib/a.dart',
+      '@@ -3 +3 @@ class A {',
+      '@@ -10,2 +9,0 @@',
+      '@@ -20,0 +19,3 @@',
+      'diff --git a/lib/gone.dart b/lib/gone.dart',
+      'deleted file mode 100644',
+      '--- a/lib/gone.dart',
+      '+++ /dev/null',
+      '@@ -1,2 +0,0 @@',
+    ].join('\n');
+
+    assert.deepStrictEqual(
+      parseDiffHunks(diff, '/work'),
+      new Map([
+        [
+          path.join('/work', 'lib/a.dart'),
+          [
+            { start: 3, end: 3 },
+            { start: 19, end: 21 },
+          ],
+        ],
+      ])
+    );
+  });
+});
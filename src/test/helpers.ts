@@ -0,0 +1,6 @@
+import * as path from 'path';
+
+/** Path of a file in `src/test/fixtures`, which is not compiled to `out` */
+export function fixturePath(...parts: string[]): string {
+  return path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', ...parts);
+}
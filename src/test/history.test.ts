@@ -0,0 +1,109 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { AnalysisIssue } from '../analysisIssue';
+import { AnalysisHistory } from '../history';
+
+// Workspace storage kept in memory
+class MemoryStorage implements vscode.Memento {
+  private readonly _values = new Map<string, unknown>();
+  /** Keys in the order they were updated */
+  public readonly writes: string[] = [];
+
+  public keys(): readonly string[] {
+    return Array.from(this._values.keys());
+  }
+
+  public get<T>(key: string, defaultValue?: T): T | undefined {
+    return this._values.has(key) ? (this._values.get(key) as T) : defaultValue;
+  }
+
+  // Like VS Code, storing undefined removes the key
+  public async update(key: string, value: unknown) {
+    this.writes.push(key);
+    if (value === undefined) {
+      this._values.delete(key);
+    } else {
+      this._values.set(key, value);
+    }
+  }
+}
+
+function issue(fingerprint: string): AnalysisIssue {
+  return {
+    severity: 'warning',
+    code: 'unused_import',
+    message: 'Unused import.',
+    file: 'lib/main.dart',
+    line: 1,
+    column: 1,
+    packageName: 'app',
+    packageRoot: '/work/app',
+    fingerprint,
+  };
+}
+
+suite('AnalysisHistory', () => {
+  const details = { analyzer: 'dart', provider: 'JSON', commit: 'abc' };
+  let storage: MemoryStorage;
+  let history: AnalysisHistory;
+
+  setup(() => {
+    storage = new MemoryStorage();
+    history = new AnalysisHistory(storage);
+  });
+
+  test('records every run', async () => {
+    await history.record([issue('a')], details);
+    await history.record([issue('a')], details);
+    await history.record([issue('a'), issue('b')], {
+      ...details,
+      commit: 'def',
+    });
+
+    assert.deepStrictEqual(
+      history.entries.map((entry) => [entry.total, entry.commit]),
+      [
+        [1, 'abc'],
+        [1, 'abc'],
+        [2, 'def'],
+      ]
+    );
+  });
+
+  test('returns the run before for the since last run comparison', async () => {
+    assert.strictEqual(await history.record([issue('a')], details), undefined);
+    await history.record([issue('a'), issue('b')], details);
+
+    const previous = await history.record([issue('a'), issue('b')], details);
+
+    assert.deepStrictEqual(previous?.entry, history.entries[1]);
+    assert.deepStrictEqual(
+      previous?.issues.map((entry) => entry.fingerprint),
+      ['a', 'b']
+    );
+  });
+
+  test('writes the issues only when they change', async () => {
+    await history.record([issue('a')], details);
+    await history.record([issue('a')], details);
+    await history.record([issue('b')], details);
+
+    assert.strictEqual(
+      storage.writes.filter((key) => key === 'dartAnalysisPanel.lastRunIssues')
+        .length,
+      2
+    );
+    assert.deepStrictEqual(
+      history.lastRun?.issues.map((entry) => entry.fingerprint),
+      ['b']
+    );
+  });
+
+  test('forgets every run when cleared', async () => {
+    await history.record([issue('a')], details);
+    await history.clear();
+
+    assert.deepStrictEqual(history.entries, []);
+    assert.strictEqual(history.lastRun, undefined);
+  });
+});
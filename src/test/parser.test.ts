@@ -0,0 +1,152 @@
+import * as assert from 'assert';
+import { readFileSync } from 'fs';
+import { RawIssue } from '../analysisIssue';
+import {
+  parseAnalyzerOutput,
+  parseJsonOutput,
+  parseMachineOutput,
+  parseTextOutput,
+} from '../parser';
+import { fixturePath } from './helpers';
+
+const CWD = '/work/app';
+
+function readFixture(name: string): string {
+  return readFileSync(fixturePath('parser', name), 'utf8');
+}
+
+// The fields every format reports
+function summarize(issues: RawIssue[]) {
+  return issues.map(({ severity, code, file, line, column }) => ({
+    severity,
+    code,
+    file,
+    line,
+    column,
+  }));
+}
+
+const EXPECTED = [
+  {
+    severity: 'error',
+    code: 'uri_does_not_exist',
+    file: '/work/app/lib/main.dart',
+    line: 1,
+    column: 8,
+  },
+  {
+    severity: 'warning',
+    code: 'unused_local_variable',
+    file: '/work/app/lib/src/util.dart',
+    line: 4,
+    column: 7,
+  },
+  {
+    severity: 'info',
+    code: 'prefer_const_constructors',
+    file: '/work/app/lib/main.dart',
+    line: 7,
+    column: 10,
+  },
+];
+
+suite('parseJsonOutput', () => {
+  const issues = parseJsonOutput(readFixture('dart_analyze.json'), CWD);
+
+  test('reads every diagnostic and resolves relative paths', () => {
+    assert.deepStrictEqual(summarize(issues), EXPECTED);
+  });
+
+  test('keeps messages, ranges and documentation', () => {
+    assert.strictEqual(
+      issues[0].message,
+      "Target of URI doesn't exist: 'package:missing/missing.dart'."
+    );
+    assert.strictEqual(
+      issues[0].correctionMessage,
+      'Try creating the file referenced by the URI, or try using a URI for a file that does exist.'
+    );
+    assert.strictEqual(issues[0].endLine, 1);
+    assert.strictEqual(issues[0].endColumn, 31);
+    assert.strictEqual(issues[0].type, 'COMPILE_TIME_ERROR');
+    assert.strictEqual(
+      issues[2].documentation,
+      'https://dart.dev/lints/prefer_const_constructors'
+    );
+  });
+
+  test('reads context messages', () => {
+    assert.deepStrictEqual(issues[1].contextMessages, [
+      {
+        message: 'The variable is declared here.',
+        file: '/work/app/lib/src/util.dart',
+        line: 2,
+        column: 3,
+      },
+    ]);
+  });
+
+  test('throws on output that is not JSON', () => {
+    assert.throws(() => parseJsonOutput('Analyzing app...', CWD));
+  });
+});
+
+suite('parseMachineOutput', () => {
+  const issues = parseMachineOutput(
+    readFixture('dart_analyze_machine.txt'),
+    CWD
+  );
+
+  test('reads every line and lower-cases the codes', () => {
+    assert.deepStrictEqual(summarize(issues.slice(0, 3)), EXPECTED);
+    assert.strictEqual(issues[0].type, 'COMPILE_TIME_ERROR');
+  });
+
+  test('unescapes pipes and new lines in messages', () => {
+    assert.strictEqual(issues[3].message, 'Escaped | pipe and a\nnew line.');
+  });
+});
+
+suite('parseTextOutput', () => {
+  test('reads dart analyze output with Windows line endings', () => {
+    const issues = parseTextOutput(readFixture('dart_analyze.txt'), CWD);
+
+    assert.deepStrictEqual(summarize(issues), EXPECTED);
+    assert.strictEqual(
+      issues[1].message,
+      "The value of the local variable 'x' isn't used. Try removing the variable or using it."
+    );
+  });
+
+  test('reads flutter analyze output', () => {
+    const issues = parseTextOutput(readFixture('flutter_analyze.txt'), CWD);
+
+    assert.deepStrictEqual(summarize(issues), EXPECTED);
+    assert.strictEqual(
+      issues[2].message,
+      "Use 'const' with the constructor to improve performance"
+    );
+  });
+
+  test('ignores output without issues', () => {
+    assert.deepStrictEqual(
+      parseTextOutput('Analyzing app...\nNo issues found!\n', CWD),
+      []
+    );
+  });
+});
+
+suite('parseAnalyzerOutput', () => {
+  for (const fixture of [
+    'dart_analyze.json',
+    'dart_analyze_machine.txt',
+    'dart_analyze.txt',
+    'flutter_analyze.txt',
+  ]) {
+    test(`detects the format of ${fixture}`, () => {
+      const issues = parseAnalyzerOutput(readFixture(fixture), CWD);
+
+      assert.deepStrictEqual(summarize(issues).slice(0, 3), EXPECTED);
+    });
+  }
+});
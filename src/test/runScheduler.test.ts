@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import {
+  RunCancelledError,
+  RunScheduler,
+  RunTimeoutError,
+} from '../runScheduler';
+
+function delay(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+suite('RunScheduler', () => {
+  let runs: AbortSignal[];
+  let finishRun: (() => void)[];
+  let timeout: number;
+  let scheduler: RunScheduler;
+
+  // Every run lasts until the test finishes it or its signal aborts
+  setup(() => {
+    runs = [];
+    finishRun = [];
+    timeout = 0;
+    scheduler = new RunScheduler(
+      (signal) =>
+        new Promise<void>((resolve) => {
+          runs.push(signal);
+          finishRun.push(resolve);
+          signal.addEventListener('abort', () => resolve());
+        }),
+      () => timeout
+    );
+  });
+
+  teardown(() => scheduler.dispose());
+
+  test('starts one run for a burst of scheduled requests', async () => {
+    scheduler.schedule(20);
+    scheduler.schedule(20);
+    scheduler.schedule(20);
+    assert.strictEqual(runs.length, 0);
+
+    await delay(50);
+    assert.strictEqual(runs.length, 1);
+  });
+
+  test('queues one follow-up run for requests during a run', async () => {
+    const first = scheduler.run();
+    const second = scheduler.run();
+    const third = scheduler.run();
+    assert.strictEqual(runs.length, 1);
+
+    finishRun[0]();
+    await first;
+    assert.strictEqual(runs.length, 2);
+
+    finishRun[1]();
+    await Promise.all([second, third]);
+    assert.strictEqual(runs.length, 2);
+    assert.strictEqual(scheduler.isRunning, false);
+  });
+
+  test('aborts the run and resolves waiting callers on cancel', async () => {
+    const first = scheduler.run();
+    const queued = scheduler.run();
+
+    scheduler.cancel();
+    await Promise.all([first, queued]);
+
+    assert.ok(runs[0].reason instanceof RunCancelledError);
+    assert.strictEqual(runs.length, 1);
+  });
+
+  test('drops a scheduled run on cancel', async () => {
+    scheduler.schedule(20);
+    scheduler.cancel();
+
+    await delay(50);
+    assert.strictEqual(runs.length, 0);
+  });
+
+  test('aborts a run that exceeds the timeout', async () => {
+    timeout = 0.02;
+
+    await scheduler.run();
+
+    assert.ok(runs[0].reason instanceof RunTimeoutError);
+    assert.strictEqual((runs[0].reason as RunTimeoutError).seconds, 0.02);
+  });
+
+  test('rejects the callers of a run that fails', async () => {
+    let calls = 0;
+    const failing = new RunScheduler(
+      async () => {
+        calls++;
+        await delay(10);
+        throw new Error(`Run ${calls} failed`);
+      },
+      () => 0
+    );
+
+    const first = failing.run();
+    const queued = failing.run();
+
+    await assert.rejects(first, /Run 1 failed/);
+    await assert.rejects(queued, /Run 2 failed/);
+  });
+});
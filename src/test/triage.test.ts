@@ -0,0 +1,107 @@
+import * as assert from 'assert';
+import { AnalysisIssue } from '../analysisIssue';
+import { applyFilters, defaultFilters } from '../filters';
+import {
+  createTriage,
+  isSnoozed,
+  isTriaged,
+  localDate,
+  updateTriage,
+} from '../triage';
+
+function issue(fingerprint: string): AnalysisIssue {
+  return {
+    severity: 'info',
+    code: 'avoid_print',
+    message: "Don't invoke 'print' in production code.",
+    file: 'lib/main.dart',
+    line: 2,
+    column: 3,
+    packageName: 'app',
+    packageRoot: '/work/app',
+    fingerprint,
+  };
+}
+
+// A local date the given number of days from today
+function daysFromToday(days: number): string {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return localDate(date);
+}
+
+suite('triage', () => {
+  test('snoozes issues until the day they show up again', () => {
+    const entry = {
+      file: 'app/lib/main.dart',
+      code: 'avoid_print',
+      message: '',
+      snoozedUntil: '2024-03-10',
+      updatedAt: '2024-03-01T00:00:00.000Z',
+    };
+
+    assert.ok(isSnoozed(entry, '2024-03-09'));
+    assert.ok(isTriaged(entry, '2024-03-09'));
+    assert.ok(!isSnoozed(entry, '2024-03-10'));
+    assert.ok(!isTriaged(entry, '2024-03-11'));
+  });
+
+  test('hides snoozed issues only until the snooze expires', () => {
+    const issues = [issue('expired'), issue('snoozed'), issue('open')];
+    let triage = createTriage();
+    triage = updateTriage(
+      triage,
+      issues[0],
+      { snoozedUntil: daysFromToday(-1) },
+      'alice'
+    );
+    triage = updateTriage(
+      triage,
+      issues[1],
+      { snoozedUntil: daysFromToday(1) },
+      'alice'
+    );
+
+    const results = applyFilters(
+      issues,
+      { ...defaultFilters, hideTriaged: true },
+      { triage }
+    );
+
+    assert.deepStrictEqual(results.visible, [0, 2]);
+    assert.deepStrictEqual(Array.from(results.triage.keys()), [1]);
+  });
+
+  test('removes entries that have nothing left to record', () => {
+    const triaged = updateTriage(
+      createTriage(),
+      issue('a'),
+      { status: 'wontFix', reason: 'Debug builds only' },
+      'alice'
+    );
+    assert.deepStrictEqual(
+      {
+        ...triaged.issues.a,
+        updatedAt: undefined,
+      },
+      {
+        file: 'app/lib/main.dart',
+        code: 'avoid_print',
+        message: "Don't invoke 'print' in production code.",
+        status: 'wontFix',
+        reason: 'Debug builds only',
+        updatedBy: 'alice',
+        updatedAt: undefined,
+      }
+    );
+
+    // The reason goes with the status
+    const reopened = updateTriage(
+      triaged,
+      issue('a'),
+      { status: undefined },
+      'alice'
+    );
+    assert.deepStrictEqual(reopened.issues, {});
+  });
+});
@@ -0,0 +1,157 @@
+import { promises as fs } from 'fs';
+import { AnalysisIssue } from './analysisIssue';
+
+/** Decision recorded for an issue that stays in the code */
+export type TriageStatus = 'reviewed' | 'wontFix';
+
+/**
+ * Triage state of one issue. `file`, `code` and `message` describe the issue
+ * when it was triaged, so that the file stays readable in code review.
+ */
+export interface TriageEntry {
+  file: string;
+  code: string;
+  message: string;
+  status?: TriageStatus;
+  /** Why the issue will not be fixed */
+  reason?: string;
+  assignee?: string;
+  /** Local date, `YYYY-MM-DD`, on which the issue shows up again */
+  snoozedUntil?: string;
+  updatedBy?: string;
+  updatedAt: string;
+}
+
+/** The checked-in triage file, keyed by issue fingerprint */
+export interface Triage {
+  version: 1;
+  issues: Record<string, TriageEntry>;
+}
+
+/** Fields to set on an entry; an explicit `undefined` removes the field */
+export type TriageChange = Partial<
+  Pick<TriageEntry, 'status' | 'reason' | 'assignee' | 'snoozedUntil'>
+>;
+
+export function createTriage(): Triage {
+  return { version: 1, issues: {} };
+}
+
+export async function readTriage(file: string): Promise<Triage | undefined> {
+  try {
+    const triage = JSON.parse(await fs.readFile(file, 'utf8'));
+    return triage && typeof triage.issues === 'object' && triage.issues
+      ? triage
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Writes the entries sorted by fingerprint to keep diffs small */
+export async function writeTriage(file: string, triage: Triage): Promise<void> {
+  const issues: Record<string, TriageEntry> = {};
+  for (const fingerprint of Object.keys(triage.issues).sort()) {
+    issues[fingerprint] = triage.issues[fingerprint];
+  }
+  await fs.writeFile(
+    file,
+    JSON.stringify({ ...triage, issues }, null, 2) + '\n',
+    'utf8'
+  );
+}
+
+/**
+ * Returns a copy of the triage with the change applied to the issue, or with
+ * the issue's entry removed when `change` is undefined or leaves nothing to
+ * record.
+ */
+export function updateTriage(
+  triage: Triage,
+  issue: AnalysisIssue,
+  change: TriageChange | undefined,
+  user: string | undefined
+): Triage {
+  const fingerprint = issue.fingerprint;
+  if (!fingerprint) {
+    return triage;
+  }
+  const issues = { ...triage.issues };
+  delete issues[fingerprint];
+
+  if (change) {
+    const previous = triage.issues[fingerprint];
+    const entry: TriageEntry = {
+      file: `${issue.packageName}/${issue.file.replace(/\\/g, '/')}`,
+      code: issue.code,
+      message: issue.message,
+      status: previous?.status,
+      reason: previous?.reason,
+      assignee: previous?.assignee,
+      snoozedUntil: previous?.snoozedUntil,
+      ...change,
+      updatedBy: user,
+      updatedAt: new Date().toISOString(),
+    };
+    // A reason only makes sense for issues that will not be fixed
+    if (entry.status !== 'wontFix') {
+      delete entry.reason;
+    }
+    for (const key of Object.keys(entry) as (keyof TriageEntry)[]) {
+      if (entry[key] === undefined || entry[key] === '') {
+        delete entry[key];
+      }
+    }
+    if (entry.status || entry.assignee || entry.snoozedUntil) {
+      issues[fingerprint] = entry;
+    }
+  }
+  return { ...triage, issues };
+}
+
+/**
+ * Whether the issue has been dealt with for now: reviewed, won't fix or
+ * snoozed. Assigned issues are still open.
+ */
+export function isTriaged(entry: TriageEntry, today = localDate()): boolean {
+  return entry.status !== undefined || isSnoozed(entry, today);
+}
+
+export function isSnoozed(entry: TriageEntry, today = localDate()): boolean {
+  return entry.snoozedUntil !== undefined && entry.snoozedUntil > today;
+}
+
+/** Assignees are matched case-insensitively against a name or email */
+export function isAssignedTo(
+  entry: TriageEntry,
+  user: string | undefined
+): boolean {
+  return (
+    !!user &&
+    !!entry.assignee &&
+    entry.assignee.trim().toLowerCase() === user.trim().toLowerCase()
+  );
+}
+
+/** Short label such as `Won't fix · @alice` */
+export function describeTriage(
+  entry: TriageEntry,
+  today = localDate()
+): string {
+  return [
+    entry.status === 'reviewed' ? 'Reviewed' : undefined,
+    entry.status === 'wontFix' ? "Won't fix" : undefined,
+    isSnoozed(entry, today) ? `Snoozed until ${entry.snoozedUntil}` : undefined,
+    entry.assignee ? `@${entry.assignee}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+}
+
+/** Formats a date as `YYYY-MM-DD` in the local time zone */
+export function localDate(date = new Date()): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}`;
+}